@@ -0,0 +1,145 @@
+import TableData, { AsyncTableData } from '../index';
+
+const createTable = () =>
+  new TableData(
+    [
+      { id: 1, name: 'Alice', role: 'admin' },
+      { id: 2, name: 'Bob', role: 'user' },
+      { id: 3, name: 'Charlie', role: 'user' },
+    ],
+    { primaryKey: 'id' },
+  );
+
+describe('AsyncTableData - API', () => {
+  test('TableData와 같은 결과를 Promise로 반환', async () => {
+    const table = new AsyncTableData(createTable());
+    expect(await table.selectRows(1, 0, [{ role: 'user' }], 'id:desc')).toEqual([
+      { id: 3, name: 'Charlie', role: 'user' },
+    ]);
+    expect((await table.selectRows(1, 0, [], undefined, true)).meta).toEqual({
+      totalCount: 3,
+      currentCount: 1,
+      limit: 1,
+      offset: 0,
+    });
+    expect((await table.selectPage(2, 2)).result.map((row) => row.id)).toEqual([3]);
+    expect((await table.selectRowsByCursor(2)).meta.hasMore).toBe(true);
+    expect(await table.selectRow([{ id: 2 }])).toEqual({ id: 2, name: 'Bob', role: 'user' });
+    expect((await table.aggregate({ groupBy: 'role' })).result).toEqual([
+      { role: 'admin', count: 1 },
+      { role: 'user', count: 2 },
+    ]);
+    expect((await table.facets(['role'])).role.values[0]).toEqual({ value: 'user', count: 2 });
+    expect(await table.getRows(2, 1, [], ['id:desc'])).toEqual([
+      { id: 2, name: 'Bob', role: 'user' },
+      { id: 1, name: 'Alice', role: 'admin' },
+    ]);
+    expect(await table.getNewId()).toBe(4);
+    const isAdmin = await table.compileConditions([{ role: 'admin' }]);
+    expect(await table.filteredList(isAdmin)).toEqual([{ id: 1, name: 'Alice', role: 'admin' }]);
+    expect((await table.sortedList(table.dataSource, ['name:desc'])).map((row) => row.id)).toEqual([3, 2, 1]);
+    expect(table.callCount).toBe(12);
+
+    expect(await table.insertRow({ name: 'Dave' })).toEqual({ id: 4, name: 'Dave' });
+    expect(await table.updateRow([{ id: 4 }], { role: 'user' }, { patch: true })).toBe(true);
+    expect(await table.updateRows([{ role: 'user' }], { role: 'member' })).toHaveLength(3);
+    expect(await table.upsertRow([{ id: 5 }], { name: 'Eve' })).toEqual({ id: 5, name: 'Eve' });
+    expect(await table.deleteRows([{ role: 'member' }])).toHaveLength(3);
+    expect(await table.deleteRow([{ id: 5 }])).toBe(true);
+    expect(table.dataSource).toEqual([{ id: 1, name: 'Alice', role: 'admin' }]);
+    expect(table.callCount).toBe(18);
+  });
+
+  test('TableData 에러는 reject', async () => {
+    const table = new AsyncTableData(createTable());
+    await expect(table.insertRow({ id: 1 })).rejects.toThrow('primary key duplicate error');
+    await expect(table.updateRow([{ id: 9 }], {})).rejects.toThrow('not found condition');
+  });
+
+  test('잘못된 설정', () => {
+    expect(() => new AsyncTableData(createTable(), { latency: -1 })).toThrow('Invalid latency for latency: -1');
+    expect(() => new AsyncTableData(createTable(), { methodLatency: { selectRows: [500, 100] } })).toThrow(
+      'Invalid latency for selectRows: [500,100]',
+    );
+    expect(() => new AsyncTableData(createTable(), { faults: { failureRate: 2 } })).toThrow('Invalid failureRate: 2');
+  });
+});
+
+describe('AsyncTableData - 지연 (fake timer)', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  test('고정 지연 / 메서드별 지연', async () => {
+    const table = new AsyncTableData(createTable(), { latency: 300, methodLatency: { insertRow: 1000 } });
+    const onSelect = jest.fn();
+    const onInsert = jest.fn();
+    table.selectRows().then(onSelect);
+    table.insertRow({ name: 'Dave' }).then(onInsert);
+
+    await jest.advanceTimersByTimeAsync(299);
+    expect(onSelect).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onSelect).toHaveBeenCalledWith(expect.arrayContaining([{ id: 1, name: 'Alice', role: 'admin' }]));
+
+    // 변경은 지연 이후에 적용
+    expect(table.dataSource).toHaveLength(3);
+    await jest.advanceTimersByTimeAsync(700);
+    expect(onInsert).toHaveBeenCalledWith({ id: 4, name: 'Dave' });
+    expect(table.dataSource).toHaveLength(4);
+  });
+
+  test('범위 지연은 seed가 같으면 같은 순서', async () => {
+    const measure = async (seed: number) => {
+      const table = new AsyncTableData(createTable(), { latency: [100, 500], seed });
+      const delays: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const start = Date.now();
+        const promise = table.selectRow([{ id: 1 }]);
+        await jest.runAllTimersAsync();
+        await promise;
+        delays.push(Date.now() - start);
+      }
+      return delays;
+    };
+
+    const delays = await measure(42);
+    expect(delays.every((delay) => delay >= 100 && delay <= 500)).toBe(true);
+    expect(new Set(delays).size).toBeGreaterThan(1);
+    expect(await measure(42)).toEqual(delays);
+  });
+});
+
+describe('AsyncTableData - 실패 주입', () => {
+  test('N번째 호출 실패, 실패한 호출은 테이블을 변경하지 않음', async () => {
+    const table = new AsyncTableData(createTable(), { faults: { failOnCalls: [2] } });
+    await expect(table.selectRow([{ id: 1 }])).resolves.toBeDefined();
+    await expect(table.insertRow({ name: 'Dave' })).rejects.toThrow('Simulated failure: insertRow (call 2)');
+    expect(table.dataSource).toHaveLength(3);
+    // 재시도는 성공
+    await expect(table.insertRow({ name: 'Dave' })).resolves.toEqual({ id: 4, name: 'Dave' });
+  });
+
+  test('메서드별 실패 및 사용자 정의 에러', async () => {
+    const table = new AsyncTableData(createTable(), {
+      faults: { failMethods: ['deleteRow'], createError: (method, call) => new Error(`${method}#${call} 503`) },
+    });
+    await expect(table.deleteRow([{ id: 1 }])).rejects.toThrow('deleteRow#1 503');
+    await expect(table.deleteRows([{ id: 1 }])).resolves.toHaveLength(1);
+
+    table.configure({ faults: {} });
+    await expect(table.deleteRow([{ id: 2 }])).resolves.toBe(true);
+  });
+
+  test('실패 확률은 seed로 재현 가능', async () => {
+    const run = async (seed: string) => {
+      const table = new AsyncTableData(createTable(), { faults: { failureRate: 0.5 }, seed });
+      const results = await Promise.allSettled(Array.from({ length: 20 }).map(() => table.selectRows()));
+      return results.map((result) => result.status);
+    };
+
+    const statuses = await run('qa');
+    expect(statuses).toContain('fulfilled');
+    expect(statuses).toContain('rejected');
+    expect(await run('qa')).toEqual(statuses);
+  });
+});
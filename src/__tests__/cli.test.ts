@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { MockServer, parseServeArgs, serve, ServeOptions } from '../cli';
+
+const fixture = {
+  users: [
+    { id: 1, name: 'Alice', role: 'admin' },
+    { id: 2, name: 'Bob', role: 'user' },
+  ],
+  orders: [{ orderNo: 'A-1', userId: 1 }],
+  settings: { theme: 'dark' },
+};
+
+const request = (server: MockServer, method: string, urlPath: string, body?: any) =>
+  new Promise<{ status?: number; headers: http.IncomingHttpHeaders; body: any }>((resolve, reject) => {
+    const req = http.request(`${server.url}${urlPath}`, { method }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () =>
+        resolve({ status: res.statusCode, headers: res.headers, body: data ? JSON.parse(data) : '' }),
+      );
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+
+describe('parseServeArgs', () => {
+  test('옵션 파싱', () => {
+    expect(
+      parseServeArgs([
+        'db.json',
+        '--port',
+        '4000',
+        '--pk',
+        'orders=orderNo',
+        '--watch',
+        '--persist',
+        '--delay',
+        '200',
+        '--base-path',
+        '/api',
+      ]),
+    ).toEqual({
+      file: 'db.json',
+      port: 4000,
+      host: 'localhost',
+      basePath: '/api',
+      primaryKeys: { orders: 'orderNo' },
+      watch: true,
+      persist: true,
+      delay: 200,
+    });
+    expect(parseServeArgs(['db.json'])).toMatchObject({ port: 3000, watch: false, persist: false, delay: 0 });
+  });
+
+  test('잘못된 인자', () => {
+    expect(() => parseServeArgs([])).toThrow('Missing file');
+    expect(() => parseServeArgs(['db.json', '--port', 'abc'])).toThrow('Invalid value for --port: abc');
+    expect(() => parseServeArgs(['db.json', '--delay'])).toThrow('Invalid value for --delay: undefined');
+    expect(() => parseServeArgs(['db.json', '--pk', 'orders'])).toThrow('Invalid value for --pk');
+    expect(() => parseServeArgs(['db.json', '--verbose'])).toThrow('Unknown option: --verbose');
+    expect(() => parseServeArgs(['a.json', 'b.json'])).toThrow('Unexpected argument: b.json');
+  });
+});
+
+describe('serve', () => {
+  let dir: string;
+  let file: string;
+  let server: MockServer | undefined;
+
+  const start = async (options: Partial<ServeOptions> = {}) => {
+    server = await serve({ ...parseServeArgs([file, '--port', '0', '--host', '127.0.0.1']), ...options });
+    return server;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-table-data-'));
+    file = path.join(dir, 'db.json');
+    fs.writeFileSync(file, JSON.stringify(fixture));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('최상위 배열마다 리소스, 리소스별 primaryKey', async () => {
+    const mock = await start({ primaryKeys: { orders: 'orderNo' } });
+    expect(Object.keys(mock.resources)).toEqual(['users', 'orders']);
+
+    const list = await request(mock, 'GET', '/users?role=user');
+    expect(list.status).toBe(200);
+    expect(list.headers['access-control-allow-origin']).toBe('*');
+    expect(list.body.result).toEqual([{ id: 2, name: 'Bob', role: 'user' }]);
+
+    expect((await request(mock, 'GET', '/orders/A-1')).body).toEqual({ orderNo: 'A-1', userId: 1 });
+    expect((await request(mock, 'GET', '/settings')).status).toBe(404);
+    expect((await request(mock, 'OPTIONS', '/users')).status).toBe(204);
+  });
+
+  test('persist 없이는 파일 변경 없음', async () => {
+    const mock = await start();
+    expect((await request(mock, 'POST', '/users', { name: 'Charlie' })).status).toBe(201);
+    expect(mock.resources.users.dataSource).toHaveLength(3);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(fixture);
+  });
+
+  test('--persist: 변경 요청 결과를 파일에 저장', async () => {
+    const mock = await start({ persist: true });
+    await request(mock, 'POST', '/users', { name: 'Charlie' });
+    await request(mock, 'PATCH', '/users/1', { role: 'user' });
+    await request(mock, 'DELETE', '/users/2');
+    // 실패한 요청은 저장하지 않음
+    expect((await request(mock, 'DELETE', '/users/9')).status).toBe(404);
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({
+      ...fixture,
+      users: [
+        { id: 1, name: 'Alice', role: 'user' },
+        { id: 3, name: 'Charlie' },
+      ],
+    });
+  });
+
+  test('reload: 파일을 다시 읽어 리소스 교체', async () => {
+    const mock = await start({ basePath: '/api' });
+    fs.writeFileSync(file, JSON.stringify({ users: [{ id: 7, name: 'Grace' }] }));
+    expect(mock.reload()).toBe(true);
+    expect(mock.reload()).toBe(false);
+    expect((await request(mock, 'GET', '/api/users')).body.result).toEqual([{ id: 7, name: 'Grace' }]);
+    expect((await request(mock, 'GET', '/api/orders')).status).toBe(404);
+  });
+
+  test('--delay: 응답 지연', async () => {
+    const mock = await start({ delay: 100 });
+    const startedAt = Date.now();
+    await request(mock, 'GET', '/users');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+  });
+
+  test('잘못된 파일', async () => {
+    fs.writeFileSync(file, '[]');
+    await expect(start()).rejects.toThrow('Fixture must be a JSON object');
+  });
+});
@@ -0,0 +1,239 @@
+import { MockDatabase, SchemaValidationError } from '../index';
+
+const createDatabase = () => {
+  const db = new MockDatabase();
+  db.createTable(
+    'companies',
+    [
+      { id: 1, name: 'Acme' },
+      { id: 2, name: 'Globex' },
+    ],
+    { primaryKey: 'id' },
+  );
+  db.createTable(
+    'users',
+    [
+      { id: 1, name: 'Alice', role: 'admin', companyId: 1 },
+      { id: 2, name: 'Bob', role: 'user', companyId: 2 },
+      { id: 3, name: 'Charlie', role: 'user', companyId: null },
+    ],
+    { primaryKey: 'id' },
+  );
+  db.createTable(
+    'orders',
+    [
+      { id: 1, userId: 1, status: 'paid', amount: 100 },
+      { id: 2, userId: 2, status: 'pending', amount: 50 },
+      { id: 3, userId: 1, status: 'pending', amount: 30 },
+      { id: 4, userId: null, status: 'paid', amount: 10 },
+    ],
+    { primaryKey: 'id' },
+  );
+  db.createTable(
+    'comments',
+    [
+      { id: 1, orderId: 1, text: 'fast' },
+      { id: 2, orderId: 3, text: 'ok' },
+    ],
+    { primaryKey: 'id' },
+  );
+
+  db.defineRelation({ from: 'users', foreignKey: 'companyId', to: 'companies', as: 'company', inverseAs: 'users' });
+  db.defineRelation({ from: 'orders', foreignKey: 'userId', to: 'users', as: 'user', inverseAs: 'orders' });
+  db.defineRelation({
+    from: 'comments',
+    foreignKey: 'orderId',
+    to: 'orders',
+    as: 'order',
+    inverseAs: 'comments',
+    onDelete: 'cascade',
+  });
+  return db;
+};
+
+describe('MockDatabase - 테이블 / 관계 등록', () => {
+  test('테이블 조회 및 에러', () => {
+    const db = createDatabase();
+    expect(db.tableNames).toEqual(['companies', 'users', 'orders', 'comments']);
+    expect(db.table('users').selectRow([{ id: 2 }])?.name).toBe('Bob');
+    expect(() => db.table('unknown')).toThrow('Unknown table: unknown');
+    expect(() => db.createTable('users', [])).toThrow('Duplicate table: users');
+  });
+
+  test('관계 정의 에러', () => {
+    const db = createDatabase();
+    expect(() => db.defineRelation({ from: 'orders', foreignKey: 'userId', to: 'unknown', as: 'x' })).toThrow(
+      'Unknown table: unknown',
+    );
+    expect(() => db.defineRelation({ from: 'orders', foreignKey: 'buyerId', to: 'users', as: 'user' })).toThrow(
+      "Duplicate relation 'user' on table 'orders'",
+    );
+    expect(() => db.selectRows('orders', undefined, undefined, [], undefined, false, { include: ['buyer'] })).toThrow(
+      "Unknown relation 'buyer' on table 'orders'",
+    );
+  });
+});
+
+describe('MockDatabase - include', () => {
+  test('many-to-one: 참조 row 중첩, 없으면 null', () => {
+    const db = createDatabase();
+    const rows = db.selectRows('orders', undefined, undefined, [], undefined, false, { include: ['user'] });
+    expect(rows[0].user).toEqual({ id: 1, name: 'Alice', role: 'admin', companyId: 1 });
+    expect(rows[3].user).toBeNull();
+    // 원본 row는 변경되지 않음
+    expect(db.table('orders').dataSource[0].user).toBeUndefined();
+  });
+
+  test('one-to-many 및 중첩 include', () => {
+    const db = createDatabase();
+    const user = db.selectRow('users', [{ id: 1 }], { include: ['orders.comments', 'company'] })!;
+    expect(user.company.name).toBe('Acme');
+    expect(user.orders.map((o: any) => o.id)).toEqual([1, 3]);
+    expect(user.orders[0].comments).toEqual([{ id: 1, orderId: 1, text: 'fast' }]);
+
+    const charlie = db.selectRow('users', [{ id: 3 }], { include: ['orders', 'company'] })!;
+    expect(charlie.orders).toEqual([]);
+    expect(charlie.company).toBeNull();
+  });
+
+  test('meta 결과에도 include 적용', () => {
+    const db = createDatabase();
+    const { result, meta } = db.selectRows('orders', 2, 0, [{ status: 'pending' }], 'id:desc', true, {
+      include: ['user.company'],
+    });
+    expect(meta.totalCount).toBe(2);
+    expect(result.map((r) => r.user.company.name)).toEqual(['Acme', 'Globex']);
+  });
+});
+
+describe('MockDatabase - 관계 필드 조건', () => {
+  test('many-to-one 관계 필드 조건', () => {
+    const db = createDatabase();
+    expect(db.selectRows('orders', undefined, undefined, [{ 'user.role': 'admin' }]).map((r) => r.id)).toEqual([1, 3]);
+    expect(db.selectRows('orders', undefined, undefined, [{ 'user.company.name': 'globex' }]).map((r) => r.id)).toEqual(
+      [2],
+    );
+  });
+
+  test('one-to-many 관계 필드 조건은 하나라도 만족하면 매칭', () => {
+    const db = createDatabase();
+    const rows = db.selectRows('users', undefined, undefined, [{ 'orders.amount': 50, operator: 'gte' }]);
+    expect(rows.map((r) => r.name)).toEqual(['Alice', 'Bob']);
+  });
+
+  test('관계 조건과 일반 조건 / OR / NOT 조합', () => {
+    const db = createDatabase();
+    const conditions = {
+      logic: 'OR' as const,
+      conditions: [
+        { 'user.name': 'bob' },
+        { logic: 'AND' as const, conditions: [{ status: 'paid' }, { 'user.id': null }] },
+      ],
+    };
+    expect(db.selectRows('orders', undefined, undefined, conditions).map((r) => r.id)).toEqual([2, 4]);
+
+    const notAdmin = { logic: 'NOT' as const, conditions: [{ 'user.role': 'admin' }] };
+    expect(db.selectRows('orders', undefined, undefined, notAdmin).map((r) => r.id)).toEqual([2, 4]);
+  });
+});
+
+describe('MockDatabase - 삭제 시 참조 규칙', () => {
+  test('restrict: 참조하는 row가 있으면 에러, 아무것도 삭제되지 않음', () => {
+    const db = createDatabase();
+    expect(() => db.deleteRows('users', [{ role: 'user' }])).toThrow(
+      "Cannot delete from 'users': referenced by 'orders.userId'",
+    );
+    expect(db.table('users').dataSource).toHaveLength(3);
+
+    // 참조하는 row가 없으면 삭제 가능
+    expect(db.deleteRow('users', [{ id: 3 }])).toBe(true);
+    expect(() => db.deleteRow('users', [{ id: 3 }])).toThrow('not found condition');
+  });
+
+  test('cascade: 참조하는 row도 함께 삭제', () => {
+    const db = createDatabase();
+    const deleted = db.deleteRows('orders', [{ userId: 1 }]);
+    expect(deleted.map((r) => r.id)).toEqual([1, 3]);
+    expect(db.table('comments').dataSource).toEqual([]);
+    expect(db.table('orders').dataSource.map((r) => r.id)).toEqual([2, 4]);
+  });
+
+  test('setNull: 참조하는 row의 외래 키를 null로 변경', () => {
+    const db = new MockDatabase();
+    db.createTable('teams', [{ id: 1 }, { id: 2 }], { primaryKey: 'id' });
+    db.createTable('members', [
+      { name: 'a', teamId: 1 },
+      { name: 'b', teamId: 2 },
+    ]);
+    db.defineRelation({ from: 'members', foreignKey: 'teamId', to: 'teams', as: 'team', onDelete: 'setNull' });
+
+    db.deleteRow('teams', [{ id: 1 }]);
+    expect(db.table('members').dataSource).toEqual([
+      { name: 'a', teamId: null },
+      { name: 'b', teamId: 2 },
+    ]);
+  });
+
+  test('setNull 스키마 검증이 실패하면 어떤 테이블도 변경되지 않음', () => {
+    const db = new MockDatabase();
+    db.createTable('a', [{ id: 1 }], { primaryKey: 'id' });
+    db.createTable('b', [{ id: 1, aId: 1 }], { primaryKey: 'id' });
+    db.createTable('c', [{ id: 1, aId: 1 }], { primaryKey: 'id', schema: { aId: { type: 'number' } } });
+    db.defineRelation({ from: 'b', foreignKey: 'aId', to: 'a', as: 'a', onDelete: 'setNull' });
+    db.defineRelation({ from: 'c', foreignKey: 'aId', to: 'a', as: 'a', onDelete: 'setNull' });
+
+    expect(() => db.deleteRow('a', [{ id: 1 }])).toThrow(SchemaValidationError);
+    expect(db.table('a').dataSource).toEqual([{ id: 1 }]);
+    expect(db.table('b').dataSource).toEqual([{ id: 1, aId: 1 }]);
+    expect(db.table('c').dataSource).toEqual([{ id: 1, aId: 1 }]);
+    expect(db.table('b').inTransaction).toBe(false);
+  });
+
+  test('cascade 하위의 restrict 위반도 삭제 전에 검사', () => {
+    const db = createDatabase();
+    db.defineRelation({ from: 'orders', foreignKey: 'id', to: 'comments', as: 'note' });
+    db.table('comments').insertRow({ id: 4, orderId: 2 });
+    expect(() => db.deleteRows('orders', [{ id: 2 }])).toThrow(
+      "Cannot delete from 'comments': referenced by 'orders.id'",
+    );
+    expect(db.table('orders').dataSource).toHaveLength(4);
+    expect(db.table('comments').dataSource).toHaveLength(3);
+  });
+
+  test('restrict 검사는 관계 정의 순서와 무관하게 cascade 삭제 결과 기준', () => {
+    const relations = [
+      { from: 'posts', foreignKey: 'userId', to: 'users', as: 'author', onDelete: 'cascade' as const },
+      { from: 'comments', foreignKey: 'postId', to: 'posts', as: 'post' },
+      { from: 'comments', foreignKey: 'userId', to: 'users', as: 'writer', onDelete: 'cascade' as const },
+    ];
+    const createBlog = (order: typeof relations) => {
+      const db = new MockDatabase();
+      db.createTable('users', [{ id: 1 }, { id: 2 }], { primaryKey: 'id' });
+      db.createTable('posts', [{ id: 1, userId: 1 }], { primaryKey: 'id' });
+      db.createTable('comments', [{ id: 1, postId: 1, userId: 1 }], { primaryKey: 'id' });
+      order.forEach((relation) => db.defineRelation(relation));
+      return db;
+    };
+
+    for (const order of [relations, [...relations].reverse()]) {
+      const db = createBlog(order);
+      expect(db.deleteRow('users', [{ id: 1 }])).toBe(true);
+      expect(db.table('posts').dataSource).toEqual([]);
+      expect(db.table('comments').dataSource).toEqual([]);
+    }
+
+    // cascade로 삭제되지 않는 참조가 남으면 여전히 에러
+    const db = createBlog(relations);
+    db.table('comments').insertRow({ id: 2, postId: 1, userId: 2 });
+    expect(() => db.deleteRow('users', [{ id: 1 }])).toThrow(
+      "Cannot delete from 'posts': referenced by 'comments.postId'",
+    );
+    expect(db.table('posts').dataSource).toHaveLength(1);
+  });
+
+  test('관계 필드 조건으로 삭제', () => {
+    const db = createDatabase();
+    const deleted = db.deleteRows('orders', [{ 'user.role': 'user' }]);
+    expect(deleted.map((r) => r.id)).toEqual([2]);
+  });
+});
@@ -0,0 +1,146 @@
+import TableData, {
+  createEnvelope,
+  jsonApiEnvelope,
+  proTableEnvelope,
+  springPageEnvelope,
+  tableEnvelope,
+} from '../index';
+
+const createTable = () =>
+  new TableData(
+    Array.from({ length: 25 }).map((_, i) => ({
+      id: i + 1,
+      name: `user${i + 1}`,
+      role: i % 5 === 0 ? 'admin' : 'user',
+    })),
+    { primaryKey: 'id' },
+  );
+
+describe('envelope - tableEnvelope / createEnvelope', () => {
+  test('limit / offset / sort 파라미터, 응답은 그대로', () => {
+    const envelope = tableEnvelope();
+    const params = envelope.parseParams({ limit: '10', offset: '20', sort: 'id:desc', role: 'admin' });
+    expect(params).toEqual({ limit: 10, offset: 20, sort: ['id:desc'], filters: { role: 'admin' } });
+
+    const data = createTable().selectRows(params.limit, params.offset, [], params.sort, true);
+    expect(envelope.format(data)).toBe(data);
+  });
+
+  test('사용자 정의 envelope', () => {
+    const envelope = createEnvelope({
+      format: ({ result, meta }) => ({ items: result.map((row) => row.id), count: meta.totalCount }),
+    });
+    const params = envelope.parseParams({ limit: 2 });
+    expect(params).toEqual({ limit: 2, offset: undefined, sort: undefined, filters: {} });
+    expect(envelope.format(createTable().selectRows(params.limit, params.offset, [], params.sort, true))).toEqual({
+      items: [1, 2],
+      count: 25,
+    });
+  });
+});
+
+describe('envelope - springPageEnvelope', () => {
+  test('page(0부터) / size / sort 파라미터', () => {
+    const envelope = springPageEnvelope();
+    expect(envelope.parseParams({ page: '2', size: '5', sort: ['name,desc', 'id'], role: 'user' })).toEqual({
+      limit: 5,
+      offset: 10,
+      sort: ['name:desc', 'id:asc'],
+      filters: { role: 'user' },
+    });
+    // 기본값: page 0, size 20
+    expect(envelope.parseParams({})).toEqual({ limit: 20, offset: 0, sort: undefined, filters: {} });
+    expect(springPageEnvelope({ defaultSize: 10 }).parseParams({ page: -1 })).toMatchObject({ limit: 10, offset: 0 });
+  });
+
+  test('Page 응답', () => {
+    const envelope = springPageEnvelope();
+    const params = envelope.parseParams({ page: 2, size: 10 });
+    const page = envelope.format(createTable().selectRows(params.limit, params.offset, [], params.sort, true));
+    expect(page).toMatchObject({
+      totalElements: 25,
+      totalPages: 3,
+      number: 2,
+      size: 10,
+      numberOfElements: 5,
+      first: false,
+      last: true,
+      empty: false,
+    });
+    expect(page.content.map((row) => row.id)).toEqual([21, 22, 23, 24, 25]);
+  });
+
+  test('결과가 없으면 empty', () => {
+    const envelope = springPageEnvelope();
+    const page = envelope.format(createTable().selectRows(10, 0, [{ role: 'none' }], undefined, true));
+    expect(page).toMatchObject({ content: [], totalElements: 0, totalPages: 0, number: 0, first: true, empty: true });
+  });
+});
+
+describe('envelope - jsonApiEnvelope', () => {
+  test('page[number] / page[size] / sort / filter 파라미터', () => {
+    const envelope = jsonApiEnvelope({ type: 'users' });
+    expect(
+      envelope.parseParams({ 'page[number]': '2', 'page[size]': '10', sort: '-role,name', 'filter[role]': 'admin' }),
+    ).toEqual({ limit: 10, offset: 10, sort: ['role:desc', 'name:asc'], filters: { role: 'admin' } });
+    // 중첩 객체 및 page[offset] / page[limit]
+    expect(envelope.parseParams({ page: { offset: 5, limit: 5 }, filter: { name: 'user1' } })).toEqual({
+      limit: 5,
+      offset: 5,
+      sort: undefined,
+      filters: { name: 'user1' },
+    });
+  });
+
+  test('resource 목록과 페이지 links', () => {
+    const envelope = jsonApiEnvelope({ type: 'users', baseUrl: '/api/users' });
+    const params = envelope.parseParams({ 'page[number]': '2', 'page[size]': '10' });
+    const document = envelope.format(createTable().selectRows(params.limit, params.offset, [], params.sort, true));
+
+    expect(document.data[0]).toEqual({ type: 'users', id: '11', attributes: { name: 'user11', role: 'admin' } });
+    expect(document.meta).toEqual({ totalCount: 25, currentCount: 10, limit: 10, offset: 10 });
+    expect(document.links).toEqual({
+      self: '/api/users?page[number]=2&page[size]=10',
+      first: '/api/users?page[number]=1&page[size]=10',
+      prev: '/api/users?page[number]=1&page[size]=10',
+      next: '/api/users?page[number]=3&page[size]=10',
+      last: '/api/users?page[number]=3&page[size]=10',
+    });
+  });
+
+  test('페이징이 없으면 self 링크만', () => {
+    const envelope = jsonApiEnvelope({ type: 'users', baseUrl: '/api/users' });
+    const document = envelope.format(createTable().selectRows(undefined, undefined, [], undefined, true));
+    expect(document.data).toHaveLength(25);
+    expect(document.links).toEqual({ self: '/api/users' });
+  });
+});
+
+describe('envelope - proTableEnvelope', () => {
+  test('current / pageSize / sorter / filter 파라미터', () => {
+    const envelope = proTableEnvelope();
+    expect(
+      envelope.parseParams({
+        current: '3',
+        pageSize: '10',
+        sorter: '{"name":"descend","id":null}',
+        filter: { role: ['admin'], status: null },
+        keyword: 'user',
+      }),
+    ).toEqual({ limit: 10, offset: 20, sort: ['name:descend'], filters: { keyword: 'user', role: ['admin'] } });
+    expect(envelope.parseParams({ sort: { id: 'ascend' } })).toEqual({
+      limit: undefined,
+      offset: undefined,
+      sort: ['id:ascend'],
+      filters: {},
+    });
+  });
+
+  test('ProTable request 응답', () => {
+    const envelope = proTableEnvelope();
+    const params = envelope.parseParams({ current: 3, pageSize: 10, sorter: { id: 'descend' } });
+    const response = envelope.format(createTable().selectRows(params.limit, params.offset, [], params.sort, true));
+    expect(response).toMatchObject({ total: 25, success: true, current: 3, pageSize: 10 });
+    expect(response.data.map((row) => row.id)).toEqual([5, 4, 3, 2, 1]);
+  });
+});
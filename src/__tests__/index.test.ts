@@ -1,4 +1,12 @@
-import TableData, { ConditionItem, ConditionNode, CONDITION_RESERVED_KEYS } from '../index';
+import TableData, {
+  ConditionItem,
+  ConditionNode,
+  CONDITION_RESERVED_KEYS,
+  createRandom,
+  generateRows,
+  SchemaValidationError,
+  TableChange,
+} from '../index';
 
 const sampleData = Array.from({ length: 100 }).map((_, i) => ({
   id: i + 1,
@@ -578,7 +586,18 @@ describe('버그 수정 검증 - dataProcessing 적용 범위', () => {
 
 describe('버그 수정 검증 - CONDITION_RESERVED_KEYS', () => {
   test('예약어 상수가 export되어 사용 가능해야 함', () => {
-    expect(CONDITION_RESERVED_KEYS).toEqual(['type', 'required', 'like']);
+    expect(CONDITION_RESERVED_KEYS).toEqual([
+      'type',
+      'required',
+      'like',
+      'operator',
+      'negate',
+      'match',
+      'caseSensitive',
+      'flags',
+      'normalize',
+      'ignoreAccents',
+    ]);
   });
 });
 
@@ -1036,3 +1055,1848 @@ describe('sort - 다양한 정렬 키워드 예외처리', () => {
   });
 });
 
+
+describe('operator - 비교/집합 연산자', () => {
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData([...sampleData], { primaryKey: 'id' });
+  });
+
+  test('gt / gte / lt / lte 숫자 비교', () => {
+    expect(table.filteredList([{ id: 95, operator: 'gt' }]).map((r) => r.id)).toEqual([96, 97, 98, 99, 100]);
+    expect(table.filteredList([{ id: 95, operator: 'gte' }])).toHaveLength(6);
+    expect(table.filteredList([{ id: 5, operator: 'lt' }]).map((r) => r.id)).toEqual([1, 2, 3, 4]);
+    expect(table.filteredList([{ id: 5, operator: 'lte' }])).toHaveLength(5);
+  });
+
+  test('type: number 지정 시 숫자 문자열을 숫자로 비교', () => {
+    // 문자열 비교였다면 '100' < '30' 이므로 결과가 달라짐
+    const result = table.filteredList([{ id: '30', operator: 'gt', type: 'number' }]);
+    expect(result).toHaveLength(70);
+    expect(result.every((r) => r.id > 30)).toBe(true);
+  });
+
+  test('ne 연산자는 동등 비교의 반대', () => {
+    const result = table.filteredList([{ role: 'ADMIN', operator: 'ne' }]);
+    expect(result).toHaveLength(66);
+    expect(result.every((r) => r.role !== 'admin')).toBe(true);
+  });
+
+  test('in / notIn 연산자', () => {
+    const inResult = table.filteredList([{ role: ['admin', 'guest'], operator: 'in' }]);
+    expect(inResult).toHaveLength(67);
+    expect(inResult.every((r) => r.role !== 'user')).toBe(true);
+
+    const notInResult = table.filteredList([{ role: ['admin', 'guest'], operator: 'notIn' }]);
+    expect(notInResult).toHaveLength(33);
+    expect(notInResult.every((r) => r.role === 'user')).toBe(true);
+  });
+
+  test('between 연산자 (경계 포함)', () => {
+    const result = table.filteredList([{ id: ['20', '30'], operator: 'between', type: 'number' }]);
+    expect(result.map((r) => r.id)).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30]);
+  });
+
+  test('between 한쪽 경계가 null이면 열린 구간', () => {
+    const result = table.filteredList([{ createdAt: [null, '2023-01-02'], operator: 'between' }]);
+    expect(result.every((r) => r.createdAt <= '2023-01-02')).toBe(true);
+    expect(result).toHaveLength(8);
+  });
+
+  test('null/undefined 행 값은 대소비교에서 제외', () => {
+    const t = new TableData(sampleDataWithFalsy.map((r) => ({ ...r })), { primaryKey: 'id' });
+    const result = t.filteredList([{ score: 0, operator: 'gte' }]);
+    expect(result.map((r) => r.id)).toEqual([1, 2, 3, 5, 6, 7, 8, 9]);
+  });
+
+  test('AND/OR 그룹 안에서 연산자 사용', () => {
+    const condition: ConditionNode = {
+      logic: 'OR',
+      conditions: [
+        { conditions: [{ id: 10, operator: 'lte' }, { role: 'admin' }] },
+        { id: 98, operator: 'gte' },
+      ],
+    };
+    const result = table.filteredList(condition);
+    expect(result.map((r) => r.id)).toEqual([1, 4, 7, 10, 98, 99, 100]);
+  });
+
+  test('지원하지 않는 operator는 에러', () => {
+    expect(() => table.filteredList([{ id: 1, operator: 'like' as any }])).toThrow(
+      "Invalid condition operator for key 'id': like",
+    );
+  });
+
+  test('in / between 값이 배열이 아니면 에러', () => {
+    expect(() => table.filteredList([{ role: 'admin', operator: 'in' }])).toThrow(
+      "Invalid condition value for key 'role': operator 'in' expects an array",
+    );
+    expect(() => table.filteredList([{ id: [1, 2, 3], operator: 'between' }])).toThrow(
+      "Invalid condition value for key 'id': operator 'between' expects [from, to]",
+    );
+  });
+
+  test('배열 값의 각 요소에 type 검사 적용', () => {
+    expect(() => table.filteredList([{ id: [1, 'abc'], operator: 'in', type: 'number' }])).toThrow(
+      "Type mismatch for key 'id': expected number, got string",
+    );
+  });
+});
+
+describe('NOT 그룹 / negate 조건', () => {
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData([...sampleData], { primaryKey: 'id' });
+  });
+
+  test('NOT 그룹은 하위 조건 전체(AND)를 부정', () => {
+    // admin 이면서 2023-01-01 ~ 2023-01-10 사이에 생성된 행을 제외
+    const condition: ConditionNode = {
+      logic: 'NOT',
+      conditions: [{ role: 'admin' }, { createdAt: ['2023-01-01', '2023-01-10'], operator: 'between' }],
+    };
+    const excluded = table.filteredList({
+      logic: 'AND',
+      conditions: [{ role: 'admin' }, { createdAt: ['2023-01-01', '2023-01-10'], operator: 'between' }],
+    });
+    const result = table.filteredList(condition);
+    expect(result).toHaveLength(100 - excluded.length);
+    expect(result.some((r) => excluded.includes(r))).toBe(false);
+  });
+
+  test('negate: true는 단일 조건을 부정', () => {
+    const result = table.filteredList([{ role: 'admin', negate: true }]);
+    expect(result).toHaveLength(66);
+    expect(result.every((r) => r.role !== 'admin')).toBe(true);
+  });
+
+  test('negate와 operator 조합', () => {
+    const result = table.filteredList([{ id: 10, operator: 'gt', negate: true }]);
+    expect(result.map((r) => r.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  test('값이 undefined인 negate 조건은 무시됨', () => {
+    const result = table.filteredList([{ role: undefined, negate: true }]);
+    expect(result).toHaveLength(100);
+  });
+
+  test('중첩된 NOT 그룹을 재귀적으로 평가', () => {
+    const condition: ConditionNode = {
+      logic: 'AND',
+      conditions: [
+        { status: 'active' },
+        {
+          logic: 'NOT',
+          conditions: [
+            {
+              logic: 'OR',
+              conditions: [{ role: 'admin' }, { logic: 'NOT', conditions: [{ id: 50, operator: 'lt' }] }],
+            },
+          ],
+        },
+      ],
+    };
+    // active AND NOT(admin OR id >= 50) → active, admin 아님, id < 50
+    const result = table.filteredList(condition);
+    expect(result.length).toBeGreaterThan(0);
+    expect(result.every((r) => r.status === 'active' && r.role !== 'admin' && r.id < 50)).toBe(true);
+    expect(result).toHaveLength(
+      sampleData.filter((r) => r.status === 'active' && r.role !== 'admin' && r.id < 50).length,
+    );
+  });
+
+  test('빈 NOT 그룹은 전체 매칭', () => {
+    expect(table.filteredList({ logic: 'NOT', conditions: [] })).toHaveLength(100);
+  });
+
+  test('NOT 하위 조건도 required / type 검사 수행', () => {
+    expect(() => table.filteredList({ logic: 'NOT', conditions: [{ userId: null, required: true }] })).toThrow(
+      'Missing required field: userId',
+    );
+    expect(() =>
+      table.filteredList({ logic: 'NOT', conditions: [{ conditions: [{ id: 'abc', type: 'number', negate: true }] }] }),
+    ).toThrow("Type mismatch for key 'id': expected number, got string");
+  });
+});
+
+describe('date 타입 조건', () => {
+  // 2023-01-15(일) 12:00 UTC 고정
+  const now = () => new Date('2023-01-15T12:00:00Z');
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData([...sampleData], { primaryKey: 'id', now });
+  });
+
+  test('ISO 문자열, epoch, Date 객체 모두 같은 시각으로 비교', () => {
+    const iso = table.filteredList([{ createdAt: '2023-01-05', type: 'date' }]);
+    const epoch = table.filteredList([{ createdAt: Date.UTC(2023, 0, 5), type: 'date' }]);
+    const date = table.filteredList([{ createdAt: new Date('2023-01-05T00:00:00Z'), type: 'date' }]);
+    expect(iso.map((r) => r.id)).toEqual([5, 33, 61, 89]);
+    expect(epoch).toEqual(iso);
+    expect(date).toEqual(iso);
+  });
+
+  test('행 값이 Date 객체나 epoch여도 비교 가능', () => {
+    const t = new TableData([
+      { id: 1, at: new Date('2023-03-01T00:00:00Z') },
+      { id: 2, at: Date.UTC(2023, 2, 10) },
+      { id: 3, at: '2023-03-20T09:30:00Z' },
+      { id: 4, at: null },
+    ]);
+    const result = t.filteredList([{ at: '2023-03-05', operator: 'gt', type: 'date' }]);
+    expect(result.map((r) => r.id)).toEqual([2, 3]);
+  });
+
+  test('before(lt) / after(gt) / between 비교', () => {
+    expect(table.filteredList([{ createdAt: '2023-01-03', operator: 'lt', type: 'date' }])).toHaveLength(8);
+    expect(table.filteredList([{ createdAt: '2023-01-26', operator: 'gt', type: 'date' }])).toHaveLength(6);
+    const between = table.filteredList([
+      { createdAt: ['2023-01-10', new Date('2023-01-12T00:00:00Z')], operator: 'between', type: 'date' },
+    ]);
+    expect(between.every((r) => r.createdAt >= '2023-01-10' && r.createdAt <= '2023-01-12')).toBe(true);
+    expect(between).toHaveLength(12);
+  });
+
+  test('상대 구간 - 이번 달 / 지난 달', () => {
+    expect(table.filteredList([{ createdAt: { this: 'month' }, type: 'date' }])).toHaveLength(100);
+    expect(table.filteredList([{ createdAt: { previous: 'month' }, type: 'date' }])).toHaveLength(0);
+  });
+
+  test('상대 구간 - 오늘을 포함한 최근 7일', () => {
+    // 2023-01-09 ~ 2023-01-15
+    const result = table.filteredList([{ createdAt: { last: 7, unit: 'day' }, type: 'date' }]);
+    expect(result.every((r) => r.createdAt >= '2023-01-09' && r.createdAt <= '2023-01-15')).toBe(true);
+    expect(result).toHaveLength(28);
+  });
+
+  test('상대 구간 - 이번 주(월요일 시작)와 연산자 조합', () => {
+    // 이번 주: 2023-01-09(월) ~ 2023-01-15(일)
+    const thisWeek = table.filteredList([{ createdAt: { this: 'week' }, type: 'date' }]);
+    expect(thisWeek).toHaveLength(28);
+    // 이번 주 이후
+    const after = table.filteredList([{ createdAt: { this: 'week' }, operator: 'gt', type: 'date' }]);
+    expect(after.every((r) => r.createdAt >= '2023-01-16')).toBe(true);
+    expect(after).toHaveLength(40);
+  });
+
+  test('주입한 기준 시각에 따라 결과가 결정됨', () => {
+    const t = new TableData([...sampleData], { now: () => Date.UTC(2023, 1, 3) });
+    expect(t.filteredList([{ createdAt: { previous: 'month' }, type: 'date' }])).toHaveLength(100);
+    expect(t.filteredList([{ createdAt: { this: 'month' }, type: 'date' }])).toHaveLength(0);
+  });
+
+  test('날짜로 해석할 수 없는 값은 type 에러', () => {
+    expect(() => table.filteredList([{ createdAt: 'not-a-date', type: 'date' }])).toThrow(
+      "Type mismatch for key 'createdAt': expected date, got string",
+    );
+    expect(() => table.filteredList([{ createdAt: { last: 0, unit: 'day' }, type: 'date' }])).toThrow(
+      "Type mismatch for key 'createdAt': expected date, got object",
+    );
+  });
+});
+
+describe('문자열 match 모드', () => {
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData([...sampleData], { primaryKey: 'id' });
+  });
+
+  test('startsWith - 접두어 일치 (대소문자 무시)', () => {
+    const result = table.filteredList([{ userId: 'USER1', match: 'startsWith' }]);
+    expect(result.map((r) => r.id)).toEqual([1, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 100]);
+  });
+
+  test('endsWith - 접미어 일치', () => {
+    const result = table.filteredList([{ name: 'r7', match: 'endsWith' }]);
+    expect(result.map((r) => r.id)).toEqual([7]);
+  });
+
+  test('contains는 like: true와 동일', () => {
+    const contains = table.filteredList([{ name: 'User2', match: 'contains' }]);
+    const like = table.filteredList([{ name: 'User2', like: true }]);
+    expect(contains).toEqual(like);
+  });
+
+  test('match가 like보다 우선', () => {
+    const result = table.filteredList([{ name: 'User2', like: true, match: 'exact' }]);
+    expect(result.map((r) => r.id)).toEqual([2]);
+  });
+
+  test('caseSensitive: true이면 대소문자 구분', () => {
+    expect(table.filteredList([{ name: 'user1', caseSensitive: true }])).toHaveLength(0);
+    expect(table.filteredList([{ name: 'User1', caseSensitive: true }])).toHaveLength(1);
+    expect(table.filteredList([{ userId: 'User', match: 'startsWith', caseSensitive: true }])).toHaveLength(0);
+  });
+
+  test('regex - 패턴 문자열과 flags', () => {
+    const result = table.filteredList([{ userId: '^user[1-3]@example\\.com$', match: 'regex' }]);
+    expect(result.map((r) => r.id)).toEqual([1, 2, 3]);
+
+    // 기본은 대소문자 무시, caseSensitive면 flags 그대로 사용
+    expect(table.filteredList([{ name: '^USER5$', match: 'regex' }])).toHaveLength(1);
+    expect(table.filteredList([{ name: '^USER5$', match: 'regex', caseSensitive: true }])).toHaveLength(0);
+    expect(table.filteredList([{ name: '^USER5$', match: 'regex', caseSensitive: true, flags: 'i' }])).toHaveLength(1);
+  });
+
+  test('regex - RegExp 객체도 사용 가능', () => {
+    const result = table.filteredList([{ contextId: /^ctx-9\d$/ }]);
+    expect(result).toHaveLength(10);
+  });
+
+  test('in 연산자와 match 모드 조합', () => {
+    const result = table.filteredList([{ userId: ['user5', 'user7'], operator: 'in', match: 'startsWith' }]);
+    expect(result.map((r) => r.id)).toEqual([
+      5, 7, 50, 51, 52, 53, 54, 55, 56, 57, 58, 59, 70, 71, 72, 73, 74, 75, 76, 77, 78, 79,
+    ]);
+  });
+
+  test('잘못된 정규식은 에러', () => {
+    expect(() => table.filteredList([{ name: '([a-z', match: 'regex' }])).toThrow(
+      "Invalid regular expression for key 'name'",
+    );
+    expect(() => table.filteredList([{ name: 'a', match: 'regex', flags: 'zz' }])).toThrow(
+      "Invalid regular expression for key 'name'",
+    );
+  });
+
+  test('지원하지 않는 match 모드는 에러', () => {
+    expect(() => table.filteredList([{ name: 'a', match: 'fuzzy' as any }])).toThrow(
+      "Invalid condition match mode for key 'name': fuzzy",
+    );
+  });
+});
+
+describe('초성 검색 / 유니코드 정규화', () => {
+  const koreanData = [
+    { id: 1, name: '김민수' },
+    { id: 2, name: '김민' },
+    { id: 3, name: '이민호' },
+    { id: 4, name: '박지민' },
+    { id: 5, name: 'José' },
+    { id: 6, name: 'Jose' },
+    { id: 7, name: 'Zoë Ångström' },
+  ];
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData(
+      koreanData.map((r) => ({ ...r })),
+      { primaryKey: 'id' },
+    );
+  });
+
+  test('chosung - 초성으로 부분일치 검색', () => {
+    expect(table.filteredList([{ name: 'ㄱㅁ', match: 'chosung' }]).map((r) => r.id)).toEqual([1, 2]);
+    expect(table.filteredList([{ name: 'ㅁㅎ', match: 'chosung' }]).map((r) => r.id)).toEqual([3]);
+    expect(table.filteredList([{ name: 'ㅁ', match: 'chosung' }]).map((r) => r.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('chosung - 완성형 음절과 초성 혼합 검색', () => {
+    expect(table.filteredList([{ name: '김ㅁㅅ', match: 'chosung' }]).map((r) => r.id)).toEqual([1]);
+    expect(table.filteredList([{ name: '지ㅁ', match: 'chosung' }]).map((r) => r.id)).toEqual([4]);
+  });
+
+  test('chosung - 영문은 대소문자 무시 부분일치', () => {
+    expect(table.filteredList([{ name: 'jos', match: 'chosung' }]).map((r) => r.id)).toEqual([5, 6]);
+  });
+
+  test('normalize NFC - 조합형(NFD)으로 저장된 값도 매칭', () => {
+    const t = new TableData([
+      { id: 1, name: '김민수'.normalize('NFD') },
+      { id: 2, name: 'Jose\u0301' },
+    ]);
+    expect(t.filteredList([{ name: '김민수' }])).toHaveLength(0);
+    expect(t.filteredList([{ name: '김민수', normalize: 'NFC' }]).map((r) => r.id)).toEqual([1]);
+    expect(t.filteredList([{ name: 'José', normalize: 'NFC' }]).map((r) => r.id)).toEqual([2]);
+  });
+
+  test('normalize NFKC - 호환 문자(전각 등)를 통일', () => {
+    const t = new TableData([{ id: 1, code: 'ＡＢＣ１２３' }]);
+    expect(t.filteredList([{ code: 'abc123', normalize: 'NFKC' }])).toHaveLength(1);
+  });
+
+  test('ignoreAccents - 악센트 무시 비교', () => {
+    expect(table.filteredList([{ name: 'jose', ignoreAccents: true }]).map((r) => r.id)).toEqual([5, 6]);
+    expect(table.filteredList([{ name: 'angstrom', like: true, ignoreAccents: true }]).map((r) => r.id)).toEqual([7]);
+    expect(table.filteredList([{ name: 'jose' }]).map((r) => r.id)).toEqual([6]);
+  });
+
+  test('테이블 기본값 - like 조건을 초성 검색으로', () => {
+    const t = new TableData(
+      koreanData.map((r) => ({ ...r })),
+      { stringMatch: { likeMatch: 'chosung' } },
+    );
+    expect(t.filteredList([{ name: 'ㄱㅁ', like: true }]).map((r) => r.id)).toEqual([1, 2]);
+    // like가 아닌 조건과 match를 직접 지정한 조건은 영향 없음
+    expect(t.filteredList([{ name: 'ㄱㅁ' }])).toHaveLength(0);
+    expect(t.filteredList([{ name: 'ㄱㅁ', like: true, match: 'contains' }])).toHaveLength(0);
+  });
+
+  test('테이블 기본값 - normalize / ignoreAccents', () => {
+    const t = new TableData(
+      koreanData.map((r) => ({ ...r })),
+      {
+        stringMatch: { normalize: 'NFC', ignoreAccents: true },
+      },
+    );
+    expect(t.filteredList([{ name: 'JOSE' }]).map((r) => r.id)).toEqual([5, 6]);
+    expect(t.filteredList([{ name: 'JOSE', ignoreAccents: false }]).map((r) => r.id)).toEqual([6]);
+  });
+
+  test('지원하지 않는 normalize 값은 에러', () => {
+    expect(() => table.filteredList([{ name: 'a', normalize: 'NFD' as any }])).toThrow(
+      "Invalid condition normalize form for key 'name': NFD",
+    );
+  });
+});
+
+describe('compileConditions - 조건 컴파일', () => {
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData([...sampleData], { primaryKey: 'id' });
+  });
+
+  test('컴파일한 predicate는 조건 트리와 같은 결과', () => {
+    const condition: ConditionNode = {
+      logic: 'OR',
+      conditions: [{ role: 'ADMIN' }, { userId: 'user2', match: 'startsWith' }],
+    };
+    const predicate = table.compileConditions(condition);
+    expect(table.filteredList(predicate)).toEqual(table.filteredList(condition));
+    expect(predicate(sampleData[0])).toBe(true);
+    expect(predicate(sampleData[2])).toBe(false);
+  });
+
+  test('predicate를 selectRows / selectRow / updateRow / deleteRow에 재사용', () => {
+    const predicate = table.compileConditions([{ status: 'active' }, { role: 'guest' }]);
+    const result = table.selectRows(5, 0, predicate, 'id:desc', true);
+    expect(result.meta.totalCount).toBe(17);
+    expect(result.result[0].id).toBe(99);
+
+    expect(table.selectRow(predicate)?.id).toBe(3);
+    table.updateRow(predicate, { ...sampleData[2], status: 'inactive' });
+    expect(table.selectRow(predicate)?.id).toBe(9);
+    table.deleteRow(predicate);
+    expect(table.selectRow(predicate)?.id).toBe(15);
+  });
+
+  test('검증 에러는 행을 조회하기 전에 발생', () => {
+    let accessCount = 0;
+    const rows = Array.from({ length: 3 }).map((_, i) => ({
+      get id() {
+        accessCount++;
+        return i + 1;
+      },
+    }));
+    const t = new TableData(rows);
+
+    expect(() => t.compileConditions([{ id: 'abc', type: 'number' }])).toThrow(
+      "Type mismatch for key 'id': expected number, got string",
+    );
+    expect(() => t.filteredList([{ id: 1 }, { id: [1], operator: 'between' }])).toThrow(
+      "Invalid condition value for key 'id': operator 'between' expects [from, to]",
+    );
+    expect(accessCount).toBe(0);
+  });
+
+  test('빈 테이블에서도 잘못된 조건은 에러', () => {
+    const t = new TableData([]);
+    expect(() => t.selectRow([{ name: null, required: true }])).toThrow('Missing required field: name');
+  });
+
+  test('상대 날짜 기준 시각은 컴파일 시점에 고정', () => {
+    let now = Date.UTC(2023, 0, 15);
+    const t = new TableData([...sampleData], { now: () => now });
+    const predicate = t.compileConditions([{ createdAt: { this: 'month' }, type: 'date' }]);
+    now = Date.UTC(2023, 1, 15);
+    expect(t.filteredList(predicate)).toHaveLength(100);
+    expect(t.filteredList([{ createdAt: { this: 'month' }, type: 'date' }])).toHaveLength(0);
+  });
+
+  test('중첩 경로 키(a.b)도 지원', () => {
+    const t = new TableData([
+      { id: 1, address: { city: 'Seoul' } },
+      { id: 2, address: { city: 'Busan' } },
+    ]);
+    expect(t.filteredList([{ 'address.city': 'seoul' }]).map((r) => r.id)).toEqual([1]);
+  });
+});
+
+describe('primaryKey 인덱스', () => {
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData(
+      sampleData.map((r) => ({ ...r })),
+      { primaryKey: 'id' },
+    );
+  });
+
+  test('primaryKey 조건 조회는 전체 조회와 같은 결과', () => {
+    expect(table.selectRow([{ id: 50 }])).toBe(table.dataSource[49]);
+    expect(table.selectRow({ id: 50 })).toBe(table.dataSource[49]);
+    expect(table.selectRow({ logic: 'AND', conditions: [{ id: 50 }] })).toBe(table.dataSource[49]);
+    expect(table.selectRow([{ id: 1000 }])).toBeUndefined();
+    // 문자열 값은 기존처럼 문자열 비교로 조회
+    expect(table.selectRow([{ id: '50' }])?.id).toBe(50);
+  });
+
+  test('자동 id 삽입을 반복해도 id가 순서대로 증가', () => {
+    const t = new TableData([], { primaryKey: 'id' });
+    for (let i = 0; i < 5000; i++) t.insertRow({ name: `name${i}` });
+    expect(t.dataSource).toHaveLength(5000);
+    expect(t.dataSource[4999].id).toBe(4999);
+    expect(t.selectRow([{ id: 2500 }])?.name).toBe('name2500');
+    expect(() => t.insertRow({ id: 4999 })).toThrow('primary key duplicate error');
+  });
+
+  test('최댓값 row 삭제 후 getNewId는 남은 row 기준으로 다시 계산', () => {
+    table.deleteRow([{ id: 100 }]);
+    expect(table.getNewId()).toBe(100);
+    table.insertRow({ id: 500 });
+    expect(table.getNewId()).toBe(501);
+  });
+
+  test('updateRow로 primaryKey가 바뀌면 인덱스에 반영', () => {
+    table.updateRow([{ id: 10 }], { ...sampleData[9], id: 1010 });
+    expect(table.selectRow([{ id: 10 }])).toBeUndefined();
+    expect(table.selectRow([{ id: 1010 }])?.userId).toBe('user10@example.com');
+    expect(() => table.insertRow({ id: 1010 })).toThrow('primary key duplicate error');
+    expect(table.insertRow({ id: 10 }).id).toBe(10);
+    expect(table.getNewId()).toBe(1011);
+  });
+
+  test('deleteRow 후 같은 primaryKey로 다시 삽입 가능', () => {
+    table.deleteRow([{ id: 5 }]);
+    expect(table.selectRow([{ id: 5 }])).toBeUndefined();
+    expect(() => table.updateRow([{ id: 5 }])).toThrow('not found condition');
+    expect(table.insertRow({ id: 5, name: 'again' }).name).toBe('again');
+    expect(table.selectRow([{ id: 5 }])?.name).toBe('again');
+  });
+
+  test('원본 데이터에 중복 primaryKey가 있으면 삭제 후 다음 row를 찾음', () => {
+    const t = new TableData(
+      [
+        { id: 1, name: 'A' },
+        { id: 1, name: 'B' },
+        { id: 2, name: 'C' },
+      ],
+      { primaryKey: 'id' },
+    );
+    expect(t.selectRow([{ id: 1 }])?.name).toBe('A');
+    t.deleteRow([{ id: 1 }]);
+    expect(t.selectRow([{ id: 1 }])?.name).toBe('B');
+    t.deleteRow([{ id: 1 }]);
+    expect(t.selectRow([{ id: 1 }])).toBeUndefined();
+  });
+
+  test('row 값을 직접 수정한 경우 reindex로 인덱스 갱신', () => {
+    table.dataSource[0].id = 200;
+    table.reindex();
+    expect(() => table.insertRow({ id: 200 })).toThrow('primary key duplicate error');
+    expect(table.getNewId()).toBe(201);
+  });
+
+  test('row의 primaryKey를 직접 수정해도 조회 결과는 전체 조회와 같음', () => {
+    const row = table.selectRow([{ id: 1 }])!;
+    row.id = 1001;
+    expect(table.selectRow([{ id: 1 }])).toBeUndefined();
+    expect(table.selectRow([{ id: 1001 }])).toBe(row);
+    expect(table.updateRow([{ id: 1001 }], { name: 'changed' }, { patch: true })).toBe(true);
+  });
+
+  test('dataSource에 직접 추가 / 삭제한 row도 인덱스에 반영', () => {
+    table.dataSource.push({ id: 101, name: 'pushed' });
+    expect(table.selectRow([{ id: 101 }])?.name).toBe('pushed');
+    expect(() => table.insertRow({ id: 101 })).toThrow('primary key duplicate error');
+    expect(table.getNewId()).toBe(102);
+
+    table.dataSource.splice(0, 1);
+    expect(table.selectRow([{ id: 1 }])).toBeUndefined();
+    expect(table.insertRow({ id: 1 }).id).toBe(1);
+  });
+
+  test('스키마 타입과 다른 primaryKey 조건은 전체 조회와 같이 에러', () => {
+    const t = new TableData([{ id: 'a' }], { primaryKey: 'id', schema: { id: { type: 'string' } } });
+    expect(() => t.filteredList([{ id: 5 }])).toThrow("Type mismatch for key 'id'");
+    expect(() => t.selectRow([{ id: 5 }])).toThrow("Type mismatch for key 'id'");
+  });
+});
+
+describe('보조 인덱스', () => {
+  const mixedData: Record<string, any>[] = [
+    ...sampleData.map((r) => ({ ...r })),
+    { id: 101, role: 'ADMIN', status: null, score: 10 },
+    { id: 102, role: null, status: 'Active', score: '10' },
+    { id: 103, status: 'active', score: 10 },
+  ];
+  const conditionCases: ConditionNode[] = [
+    { role: 'admin' },
+    { logic: 'AND', conditions: [{ role: 'Admin' }, { status: 'ACTIVE' }] },
+    {
+      logic: 'AND',
+      conditions: [
+        { role: ['admin', 'guest'], operator: 'in' },
+        { id: 50, operator: 'gt' },
+      ],
+    },
+    { logic: 'AND', conditions: [{ role: null }] },
+    { logic: 'AND', conditions: [{ status: null }, { role: 'admin' }] },
+    { logic: 'AND', conditions: [{ score: 10 }] },
+    { logic: 'AND', conditions: [{ score: '10' }] },
+    { logic: 'AND', conditions: [{ score: [10, '10'], operator: 'in' }] },
+    { logic: 'AND', conditions: [{ role: 'adm', like: true }, { status: 'active' }] },
+    { logic: 'OR', conditions: [{ role: 'admin' }, { status: 'active' }] },
+    { logic: 'AND', conditions: [{ role: 'admin', negate: true }, { status: 'inactive' }] },
+    { logic: 'AND', conditions: [{ role: undefined }, { status: 'active' }] },
+  ];
+
+  test('인덱스 사용 결과가 전체 조회와 동일', () => {
+    const scan = new TableData(
+      mixedData.map((r) => ({ ...r })),
+      { primaryKey: 'id' },
+    );
+    const indexed = new TableData(
+      mixedData.map((r) => ({ ...r })),
+      {
+        primaryKey: 'id',
+        indexes: ['role', 'status', 'score'],
+      },
+    );
+    for (const condition of conditionCases) {
+      expect(indexed.filteredList(condition)).toEqual(scan.filteredList(condition));
+    }
+  });
+
+  test('insert / update / delete 후에도 인덱스 결과가 전체 조회와 동일', () => {
+    const scan = new TableData(
+      mixedData.map((r) => ({ ...r })),
+      { primaryKey: 'id' },
+    );
+    const indexed = new TableData(
+      mixedData.map((r) => ({ ...r })),
+      { primaryKey: 'id' },
+    );
+    indexed.createIndex('role');
+    indexed.createIndex('status');
+    indexed.createIndex('score');
+
+    for (const t of [scan, indexed]) {
+      t.insertRow({ role: 'admin', status: 'active', score: 10 });
+      t.updateRow([{ id: 1 }], { id: 1, role: 'guest', status: 'active' });
+      t.updateRow([{ id: 103 }], { id: 103, role: 'admin', status: 'ACTIVE', score: '10' });
+      t.deleteRow([{ id: 4 }]);
+      t.deleteRow([{ role: 'user' }, { status: 'inactive' }]);
+    }
+    for (const condition of conditionCases) {
+      expect(indexed.filteredList(condition)).toEqual(scan.filteredList(condition));
+    }
+  });
+
+  test('인덱스를 사용하면 후보 row만 조건 검사', () => {
+    let accessCount = 0;
+    const rows = sampleData.map((r) => ({
+      ...r,
+      get name() {
+        accessCount++;
+        return r.name;
+      },
+    }));
+    const t = new TableData(rows, { primaryKey: 'id', indexes: ['role'] });
+    const result = t.selectRows(undefined, undefined, [{ role: 'admin' }, { name: 'User1' }], undefined, true);
+    expect(result.meta.totalCount).toBe(1);
+    expect(accessCount).toBe(34);
+  });
+
+  test('getRows 정렬 / 페이징과 함께 사용', () => {
+    const t = new TableData(
+      sampleData.map((r) => ({ ...r })),
+      { primaryKey: 'id', indexes: ['role'] },
+    );
+    const result = t.selectRows(3, 1, [{ role: 'GUEST' }], 'id:desc', true);
+    expect(result.meta.totalCount).toBe(33);
+    expect(result.result.map((r) => r.id)).toEqual([96, 93, 90]);
+  });
+
+  test('createIndex / dropIndex / indexes', () => {
+    const t = new TableData(
+      sampleData.map((r) => ({ ...r })),
+      { indexes: ['role'] },
+    );
+    t.createIndex('status');
+    t.createIndex('status');
+    expect(t.indexes).toEqual(['role', 'status']);
+    t.dropIndex('role');
+    expect(t.indexes).toEqual(['status']);
+    expect(t.filteredList([{ role: 'admin' }])).toHaveLength(34);
+  });
+
+  test('row의 인덱스 컬럼 값을 직접 수정한 경우', () => {
+    const t = new TableData(
+      [
+        { id: 1, role: 'user' },
+        { id: 2, role: 'admin' },
+        { id: 3, role: 'user' },
+      ],
+      { primaryKey: 'id', indexes: ['role'] },
+    );
+
+    // 이전 값으로 조회하면 감지해 다시 인덱싱
+    t.selectRow([{ id: 1 }])!.role = 'admin';
+    expect(t.filteredList([{ role: 'user' }]).map((r) => r.id)).toEqual([3]);
+    expect(t.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1, 2]);
+
+    // 새 값으로 먼저 조회하면 reindex 전까지 누락될 수 있음
+    t.selectRow([{ id: 3 }])!.role = 'admin';
+    expect(t.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1, 2]);
+    t.reindex();
+    expect(t.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1, 2, 3]);
+  });
+
+  test('compileConditions로 만든 predicate도 인덱스 사용', () => {
+    let reads = 0;
+    const rows = Array.from({ length: 100 }, (_, i) => {
+      const id = i + 1;
+      return {
+        get id() {
+          reads++;
+          return id;
+        },
+        role: id % 10 === 0 ? 'admin' : 'user',
+        score: id,
+      };
+    });
+    const t = new TableData(rows, { primaryKey: 'id', indexes: ['role'] });
+
+    const admins = t.compileConditions([{ role: 'admin' }, { id: 50, operator: 'gte' }]);
+    reads = 0;
+    expect(t.filteredList(admins).map((r) => r.score)).toEqual([50, 60, 70, 80, 90, 100]);
+    expect(reads).toBe(10);
+
+    const byId = t.compileConditions([{ id: 42 }]);
+    reads = 0;
+    expect(t.selectRow(byId)?.score).toBe(42);
+    expect(reads).toBe(1);
+
+    // 다른 테이블에서 컴파일한 predicate나 직접 만든 함수는 전체 조회
+    const other = new TableData([], { primaryKey: 'id' }).compileConditions([{ id: 42 }]);
+    reads = 0;
+    expect(t.selectRow(other)?.score).toBe(42);
+    expect(reads).toBe(42);
+  });
+});
+
+describe('bulk API - insertRows / updateRows / deleteRows', () => {
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData(
+      sampleData.map((r) => ({ ...r })),
+      { primaryKey: 'id', indexes: ['role'] },
+    );
+  });
+
+  test('insertRows - 여러 row 삽입 및 자동 id 부여', () => {
+    const inserted = table.insertRows([{ name: 'A' }, { id: 500, name: 'B' }, { name: 'C' }]);
+    expect(inserted.map((r) => r.id)).toEqual([101, 500, 501]);
+    expect(table.dataSource).toHaveLength(103);
+    expect(table.selectRow([{ id: 501 }])?.name).toBe('C');
+  });
+
+  test('insertRows - 기존 데이터와 중복되면 아무것도 삽입하지 않음', () => {
+    expect(() => table.insertRows([{ name: 'A' }, { id: 5, name: 'dup' }])).toThrow('primary key duplicate error');
+    expect(table.dataSource).toHaveLength(100);
+    expect(table.getNewId()).toBe(101);
+  });
+
+  test('insertRows - 배치 내부 중복(자동 id 포함)도 검사', () => {
+    expect(() => table.insertRows([{ id: 200 }, { id: 200 }])).toThrow('primary key duplicate error');
+    expect(() => table.insertRows([{ name: 'auto' }, { id: 101 }])).toThrow('primary key duplicate error');
+    expect(table.dataSource).toHaveLength(100);
+  });
+
+  test('insertRows - 빈 테이블과 primaryKey 없는 테이블', () => {
+    const empty = new TableData([], { primaryKey: 'id' });
+    expect(empty.insertRows([{}, {}, {}]).map((r) => r.id)).toEqual([0, 1, 2]);
+
+    const noKey = new TableData([]);
+    expect(noKey.insertRows([{ a: 1 }, { a: 1 }])).toHaveLength(2);
+  });
+
+  test('updateRows - 조건을 만족하는 모든 row 수정', () => {
+    const updated = table.updateRows([{ role: 'guest' }], { status: 'deactivated' });
+    expect(updated).toHaveLength(33);
+    expect(updated[0]).toMatchObject({ id: 3, role: 'guest', status: 'deactivated' });
+    expect(table.filteredList([{ status: 'deactivated' }])).toHaveLength(33);
+    expect(table.filteredList([{ role: 'guest' }, { status: 'active' }])).toHaveLength(0);
+  });
+
+  test('updateRows - 함수로 새 row 생성', () => {
+    const updated = table.updateRows([{ id: 3, operator: 'lte' }], (row) => ({ ...row, name: row.name.toUpperCase() }));
+    expect(updated.map((r) => r.name)).toEqual(['USER1', 'USER2', 'USER3']);
+    expect(table.selectRow([{ id: 2 }])?.name).toBe('USER2');
+  });
+
+  test('updateRows - 인덱스 컬럼 변경 반영', () => {
+    table.updateRows([{ role: 'admin' }], { role: 'owner' });
+    expect(table.filteredList([{ role: 'admin' }])).toHaveLength(0);
+    expect(table.filteredList([{ role: 'owner' }])).toHaveLength(34);
+  });
+
+  test('deleteRows - 조건을 만족하는 모든 row 삭제', () => {
+    const deleted = table.deleteRows([{ role: 'user' }]);
+    expect(deleted).toHaveLength(33);
+    expect(table.dataSource).toHaveLength(67);
+    expect(table.filteredList([{ role: 'user' }])).toHaveLength(0);
+    expect(table.selectRow([{ id: 2 }])).toBeUndefined();
+    expect(table.dataSource.map((r) => r.id).slice(0, 4)).toEqual([1, 3, 4, 6]);
+  });
+
+  test('매칭되는 row가 없으면 빈 배열 반환', () => {
+    expect(table.updateRows([{ role: 'nobody' }], { status: 'x' })).toEqual([]);
+    expect(table.deleteRows([{ role: 'nobody' }])).toEqual([]);
+    expect(table.dataSource).toHaveLength(100);
+  });
+});
+
+describe('patch / upsert 및 수정 시 primaryKey 검사', () => {
+  const people = [
+    { id: 1, name: 'Alice', role: 'admin', address: { city: 'Seoul', zip: '04524' } },
+    { id: 2, name: 'Bob', role: 'user', address: { city: 'Busan', zip: '48058' } },
+    { id: 3, name: 'Charlie', role: 'user', address: { city: 'Incheon', zip: '21554' } },
+  ];
+  let table: TableData;
+
+  beforeEach(() => {
+    table = new TableData(
+      people.map((r) => ({ ...r, address: { ...r.address } })),
+      { primaryKey: 'id', indexes: ['role'] },
+    );
+  });
+
+  test('patch 모드는 전달한 필드만 병합', () => {
+    table.updateRow([{ id: 1 }], { role: 'owner' }, { patch: true });
+    expect(table.selectRow([{ id: 1 }])).toEqual({ ...people[0], role: 'owner' });
+    expect(table.filteredList([{ role: 'owner' }]).map((r) => r.id)).toEqual([1]);
+  });
+
+  test('patch 모드의 경로 키(address.city)는 중첩 객체를 복사하면서 수정', () => {
+    const before = table.selectRow([{ id: 2 }])!;
+    table.updateRow([{ id: 2 }], { 'address.city': 'Daegu' }, { patch: true });
+    const after = table.selectRow([{ id: 2 }])!;
+    expect(after.address).toEqual({ city: 'Daegu', zip: '48058' });
+    expect(before.address.city).toBe('Busan');
+  });
+
+  test('교체 모드에서 primaryKey를 누락하면 기존 값 유지', () => {
+    table.updateRow([{ id: 3 }], { name: 'Chuck' });
+    expect(table.selectRow([{ id: 3 }])).toEqual({ id: 3, name: 'Chuck' });
+  });
+
+  test('다른 row와 중복되는 primaryKey로 수정하면 에러', () => {
+    expect(() => table.updateRow([{ id: 3 }], { id: 1, name: 'dup' })).toThrow('primary key duplicate error');
+    expect(() => table.updateRow([{ id: 3 }], { id: 2 }, { patch: true })).toThrow('primary key duplicate error');
+    expect(table.selectRow([{ id: 3 }])?.name).toBe('Charlie');
+    // 중복되지 않는 값으로는 변경 가능
+    table.updateRow([{ id: 3 }], { id: 30 }, { patch: true });
+    expect(table.selectRow([{ id: 30 }])?.name).toBe('Charlie');
+  });
+
+  test('updateRows도 경로 키 병합 및 primaryKey 중복 검사', () => {
+    table.updateRows([{ role: 'user' }], { 'address.city': 'Jeju' });
+    expect(table.filteredList([{ 'address.city': 'jeju' }]).map((r) => r.id)).toEqual([2, 3]);
+
+    expect(() => table.updateRows([{ role: 'user' }], { id: 10 })).toThrow('primary key duplicate error');
+    expect(() => table.updateRows([{ role: 'user' }], (row) => ({ ...row, id: row.id - 1 }))).toThrow(
+      'primary key duplicate error',
+    );
+    expect(table.dataSource.map((r) => r.id)).toEqual([1, 2, 3]);
+
+    // 수정 대상끼리 값을 맞바꾸는 것은 허용
+    table.updateRows([{ role: 'user' }], (row) => ({ ...row, id: row.id === 2 ? 3 : 2 }));
+    expect(table.selectRow([{ id: 2 }])?.name).toBe('Charlie');
+    expect(table.selectRow([{ id: 3 }])?.name).toBe('Bob');
+  });
+
+  test('updateRows - 함수가 row를 직접 수정해도 기존 row는 유지', () => {
+    const old = table.selectRow([{ id: 2 }])!;
+    const changes: TableChange[] = [];
+    table.on('update', (change) => changes.push(change));
+
+    table.begin();
+    const [updated] = table.updateRows([{ id: 2 }], (row) => {
+      row.name = 'z';
+      return row;
+    });
+    expect(updated).not.toBe(old);
+    expect(old.name).toBe('Bob');
+    table.rollback();
+    expect(table.selectRow([{ id: 2 }])).toBe(old);
+    expect(old.name).toBe('Bob');
+
+    table.updateRows([{ id: 2 }], (row) => {
+      row.name = 'z';
+      return row;
+    });
+    expect(changes).toHaveLength(1);
+    expect(changes[0].before?.name).toBe('Bob');
+    expect(changes[0].after?.name).toBe('z');
+  });
+
+  test('upsertRow - 매칭되면 수정', () => {
+    const row = table.upsertRow([{ id: 2 }], { name: 'Bobby' }, { patch: true });
+    expect(row).toMatchObject({ id: 2, name: 'Bobby', role: 'user' });
+    expect(table.dataSource).toHaveLength(3);
+  });
+
+  test('upsertRow - 매칭되지 않으면 삽입 (primaryKey 조건 값 사용)', () => {
+    const row = table.upsertRow([{ id: 10 }], { name: 'Dave', 'address.city': 'Ulsan' }, { patch: true });
+    expect(row).toEqual({ id: 10, name: 'Dave', address: { city: 'Ulsan' } });
+    expect(table.selectRow([{ id: 10 }])).toBe(row);
+
+    const byName = table.upsertRow([{ name: 'Eve' }], { name: 'Eve' });
+    expect(byName.id).toBe(11);
+  });
+
+  test('upsertRow - 문자열 조건 값은 primaryKey 타입으로 변환해 삽입', () => {
+    const row = table.upsertRow([{ id: '60' }], { name: 'V' });
+    expect(row.id).toBe(60);
+    expect(table.selectRow([{ id: '60' }])).toBe(row);
+    expect(table.upsertRow([{ id: '60' }], { name: 'W' }, { patch: true }).id).toBe(60);
+    expect(table.dataSource).toHaveLength(4);
+
+    const typed = new TableData([], { primaryKey: 'id', schema: { id: { type: 'number' } } });
+    expect(typed.upsertRow([{ id: '7' }], { name: 'A' }).id).toBe(7);
+
+    const codes = new TableData([{ code: 'a1' }], { primaryKey: 'code' });
+    expect(codes.upsertRow([{ code: 'b2' }], { name: 'B' })).toEqual({ code: 'b2', name: 'B' });
+  });
+});
+
+describe('schema - 컬럼 정의 검증 / 기본값 / 타입 변환', () => {
+  const createTable = () =>
+    new TableData(
+      [
+        { id: 1, name: 'Alice', age: 30, role: 'admin', active: true, joinedAt: '2023-01-05' },
+        { id: 2, name: 'Bob', age: 25, role: 'user', active: false, joinedAt: '2023-02-10' },
+        { id: 3, name: 'Charlie', age: 41, role: 'user', active: true, joinedAt: '2023-03-15' },
+      ],
+      {
+        primaryKey: 'id',
+        schema: {
+          id: { type: 'number', required: true },
+          name: { type: 'string', required: true },
+          age: { type: 'number', coerce: true, nullable: true },
+          role: { type: 'string', enum: ['admin', 'user', 'guest'], default: 'guest' },
+          active: { type: 'boolean', coerce: true, default: () => true },
+          joinedAt: { type: 'date' },
+          tags: { default: [] },
+        },
+      },
+    );
+
+  let table: TableData;
+  beforeEach(() => {
+    table = createTable();
+  });
+
+  test('insertRow - 기본값 적용 및 자동 id', () => {
+    const row = table.insertRow({ name: 'Dave', age: 20 });
+    expect(row).toEqual({ id: 4, name: 'Dave', age: 20, role: 'guest', active: true, tags: [] });
+  });
+
+  test('기본값 객체는 row마다 복사', () => {
+    const a = table.insertRow({ name: 'A' });
+    const b = table.insertRow({ name: 'B' });
+    expect(a.tags).not.toBe(b.tags);
+  });
+
+  test('coerce 컬럼은 타입 변환 후 저장', () => {
+    const row = table.insertRow({ name: 'Dave', age: '20', active: 'false' });
+    expect(row.age).toBe(20);
+    expect(row.active).toBe(false);
+  });
+
+  test('잘못된 필드를 모두 모아 하나의 에러로 보고', () => {
+    let error: any;
+    try {
+      table.insertRow({ age: 'abc', role: 'owner', active: null, joinedAt: 'not a date' });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.errors.map((e: any) => e.field)).toEqual(['name', 'age', 'role', 'active', 'joinedAt']);
+    expect(error.errors[0]).toEqual({ field: 'name', message: 'Missing required field: name', value: undefined });
+    expect(error.errors[1].message).toBe("Type mismatch for key 'age': expected number, got string");
+    expect(error.message).toContain('Schema validation failed');
+    expect(table.dataSource).toHaveLength(3);
+  });
+
+  test('nullable 컬럼만 null 허용', () => {
+    expect(table.insertRow({ name: 'Dave', age: null }).age).toBeNull();
+    expect(() => table.insertRow({ name: 'Eve', role: null })).toThrow('Null value for non-nullable field: role');
+  });
+
+  test('updateRow - 검증 실패 시 변경되지 않음', () => {
+    expect(() => table.updateRow([{ id: 1 }], { role: 'owner' }, { patch: true })).toThrow(SchemaValidationError);
+    expect(() => table.updateRow([{ id: 1 }], { age: 10 })).toThrow('Missing required field: name');
+    expect(table.selectRow([{ id: 1 }])?.role).toBe('admin');
+
+    table.updateRow([{ id: 1 }], { age: '31' }, { patch: true });
+    expect(table.selectRow([{ id: 1 }])?.age).toBe(31);
+  });
+
+  test('updateRows / insertRows - 하나라도 실패하면 테이블은 변경되지 않음', () => {
+    expect(() => table.updateRows([{ role: 'user' }], (row) => ({ ...row, age: row.id === 3 ? 'x' : 1 }))).toThrow(
+      SchemaValidationError,
+    );
+    expect(table.filteredList([{ role: 'user' }]).map((r) => r.age)).toEqual([25, 41]);
+
+    expect(() => table.insertRows([{ name: 'Dave' }, { name: 'Eve', role: 'owner' }])).toThrow(SchemaValidationError);
+    expect(table.dataSource).toHaveLength(3);
+  });
+
+  test('upsertRow도 검증 / 기본값 적용', () => {
+    expect(table.upsertRow([{ id: 10 }], { name: 'Dave' })).toMatchObject({ id: 10, role: 'guest' });
+    expect(() => table.upsertRow([{ id: 11 }], { name: 'Eve', role: 'owner' })).toThrow(SchemaValidationError);
+  });
+
+  test('조건의 type을 스키마에서 추론', () => {
+    // number: 숫자 문자열로 대소비교
+    expect(table.filteredList([{ age: '30', operator: 'gte' }]).map((r) => r.id)).toEqual([1, 3]);
+    // date: 상대 날짜 / 날짜 비교
+    expect(table.filteredList([{ joinedAt: '2023-02-01', operator: 'gte' }]).map((r) => r.id)).toEqual([2, 3]);
+    // 타입 불일치는 컴파일 시 에러
+    expect(() => table.filteredList([{ age: 'abc' }])).toThrow("Type mismatch for key 'age'");
+  });
+
+  test('nullable 컬럼을 null로 조회', () => {
+    table.updateRow([{ id: 2 }], { age: null }, { patch: true });
+    expect(table.filteredList([{ age: null }]).map((r) => r.id)).toEqual([2]);
+    expect(table.filteredList([{ age: null, negate: true }]).map((r) => r.id)).toEqual([1, 3]);
+    expect(table.filteredList([{ age: [null, 41], operator: 'in' }]).map((r) => r.id)).toEqual([2, 3]);
+  });
+
+  test('like / match 조건은 type을 추론하지 않음', () => {
+    expect(table.filteredList([{ joinedAt: '2023-0', like: true }])).toHaveLength(3);
+    expect(table.filteredList([{ joinedAt: '-02-', match: 'contains' }]).map((r) => r.id)).toEqual([2]);
+  });
+
+  test('조건에 type을 지정하면 스키마보다 우선', () => {
+    expect(table.filteredList([{ joinedAt: '2023-01-05', type: 'string' }]).map((r) => r.id)).toEqual([1]);
+  });
+});
+
+describe('데이터 생성기 - generateRows / TableData.generate', () => {
+  const spec = {
+    id: { type: 'sequence' as const },
+    name: { type: 'name' as const },
+    email: { type: 'email' as const, from: 'name', domain: 'test.io' },
+    role: { type: 'weighted' as const, values: { admin: 1, user: 8, guest: 1 } },
+    status: { type: 'pick' as const, values: ['active', 'inactive'] },
+    age: { type: 'number' as const, min: 20, max: 60, nullable: 0.2 },
+    createdAt: { type: 'date' as const, from: '2023-01-01', to: '2023-12-31', format: 'date' as const },
+    label: (row: Record<string, any>) => `${row.role}-${row.id}`,
+  };
+
+  test('같은 seed면 같은 데이터, 다른 seed면 다른 데이터', () => {
+    const a = generateRows(spec, { count: 50, seed: 42 });
+    const b = generateRows(spec, { count: 50, seed: 42 });
+    const c = generateRows(spec, { count: 50, seed: 'other' });
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  test('createRandom - 0 이상 1 미만의 재현 가능한 난수', () => {
+    const values = Array.from({ length: 1000 }).map(createRandom(7));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+    expect(Array.from({ length: 1000 }).map(createRandom(7))).toEqual(values);
+  });
+
+  test('컬럼별 생성 규칙', () => {
+    const rows = generateRows(spec, { count: 200, seed: 1 });
+    expect(rows.map((r) => r.id)).toEqual(Array.from({ length: 200 }).map((_, i) => i + 1));
+    rows.forEach((row) => {
+      expect(row.name).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+$/);
+      expect(row.email).toBe(`${row.name.toLowerCase().replace(' ', '.')}${row.id}@test.io`);
+      expect(['active', 'inactive']).toContain(row.status);
+      expect(row.createdAt >= '2023-01-01' && row.createdAt <= '2023-12-31').toBe(true);
+      expect(row.label).toBe(`${row.role}-${row.id}`);
+      if (row.age !== null) expect(Number.isInteger(row.age) && row.age >= 20 && row.age <= 60).toBe(true);
+    });
+
+    // 가중치 / null 비율은 대략적인 분포로 확인
+    const users = rows.filter((r) => r.role === 'user').length;
+    expect(users).toBeGreaterThan(130);
+    const nulls = rows.filter((r) => r.age === null).length;
+    expect(nulls).toBeGreaterThan(20);
+    expect(nulls).toBeLessThan(60);
+  });
+
+  test('sequence prefix / step, 한글 이름, boolean, 소수 자릿수', () => {
+    const rows = generateRows(
+      {
+        code: { type: 'sequence', start: 10, step: 5, prefix: 'ORD-' },
+        name: { type: 'name', locale: 'ko' },
+        email: { type: 'email', from: 'name' },
+        vip: { type: 'boolean', probability: 1 },
+        score: { type: 'number', min: 0, max: 5, precision: 1 },
+        grade: {
+          type: 'weighted',
+          values: [
+            [1, 0],
+            [2, 1],
+          ],
+        },
+      },
+      { count: 3 },
+    );
+    expect(rows.map((r) => r.code)).toEqual(['ORD-10', 'ORD-15', 'ORD-20']);
+    expect(rows[0].name).toMatch(/^[가-힣]{3}$/);
+    expect(rows[1].email).toBe('user2@example.com');
+    expect(rows.every((r) => r.vip === true && r.grade === 2)).toBe(true);
+    expect(rows.every((r) => Math.round(r.score * 10) === r.score * 10)).toBe(true);
+  });
+
+  test('잘못된 생성 규칙은 에러', () => {
+    expect(() => generateRows({ a: { type: 'pick', values: [] } }, { count: 1 })).toThrow(
+      "Invalid generator for column 'a': values is empty",
+    );
+    expect(() => generateRows({ a: { type: 'date', from: 'x', to: '2023-01-01' } }, { count: 1 })).toThrow(
+      "Invalid date range for column 'a'",
+    );
+    expect(() => generateRows({ a: { type: 'unknown' } as any }, { count: 1 })).toThrow(
+      "Invalid generator type for column 'a': unknown",
+    );
+    expect(() => generateRows({ a: { type: 'number', min: 2, max: 1 } }, { count: 1 })).toThrow(
+      "Invalid generator for column 'a': min must be less than or equal to max",
+    );
+    expect(() => generateRows({ a: { type: 'number', min: 0.2, max: 0.8 } }, { count: 1 })).toThrow(
+      "Invalid generator for column 'a': no value with precision 0 in [min, max]",
+    );
+    expect(() => generateRows({ a: { type: 'number', min: 1.25, max: 1.26, precision: 1 } }, { count: 1 })).toThrow(
+      "Invalid generator for column 'a': no value with precision 1 in [min, max]",
+    );
+  });
+
+  test('number 생성 값은 [min, max] 범위 안', () => {
+    const rows = generateRows(
+      {
+        a: { type: 'number', min: 1.1, max: 1.2, precision: 1 },
+        b: { type: 'number', min: 3, max: 3 },
+      },
+      { count: 50 },
+    );
+    expect(rows.every((r) => r.a >= 1.1 && r.a <= 1.2)).toBe(true);
+    expect(new Set(rows.map((r) => r.a))).toEqual(new Set([1.1, 1.2]));
+    expect(rows.every((r) => r.b === 3)).toBe(true);
+  });
+
+  test('TableData.generate - primaryKey가 설정된 TableData 반환', () => {
+    const table = TableData.generate(
+      { role: { type: 'pick', values: ['admin', 'user'] } },
+      { count: 20, seed: 3, indexes: ['role'] },
+    );
+    expect(table.dataSource).toHaveLength(20);
+    expect(Object.keys(table.dataSource[0])).toEqual(['id', 'role']);
+    expect(table.selectRow([{ id: 20 }])).toBeDefined();
+    expect(table.insertRow({ role: 'user' }).id).toBe(21);
+    expect(() => table.insertRow({ id: 1 })).toThrow('primary key duplicate error');
+
+    const byCode = TableData.generate({ code: { type: 'sequence', prefix: 'C' } }, { count: 2, primaryKey: 'code' });
+    expect(byCode.dataSource).toEqual([{ code: 'C1' }, { code: 'C2' }]);
+  });
+});
+
+describe('aggregate - 그룹별 집계', () => {
+  const table = new TableData(sampleData, { primaryKey: 'id' });
+
+  test('groupBy 없이 전체 집계 (기본 metric은 count)', () => {
+    expect(table.aggregate()).toEqual({
+      result: [{ count: 100 }],
+      meta: { totalCount: 1, currentCount: 1, limit: null, offset: 0 },
+    });
+    expect(table.aggregate({ metrics: { days: { fn: 'countDistinct', field: 'createdAt' } } }).result).toEqual([
+      { days: 28 },
+    ]);
+  });
+
+  test('count / sum / avg / min / max', () => {
+    const { result } = table.aggregate({
+      conditions: [{ role: 'admin' }],
+      groupBy: 'role',
+      metrics: {
+        count: { fn: 'count' },
+        total: { fn: 'sum', field: 'id' },
+        average: { fn: 'avg', field: 'id' },
+        first: { fn: 'min', field: 'id' },
+        last: { fn: 'max', field: 'createdAt' },
+      },
+    });
+    expect(result).toEqual([{ role: 'admin', count: 34, total: 1717, average: 50.5, first: 1, last: '2023-01-28' }]);
+  });
+
+  test('여러 키로 그룹화, 그룹 단위 정렬 / 페이징', () => {
+    const { result, meta } = table.aggregate({
+      groupBy: ['role', 'status'],
+      sort: ['count:asc', 'role:desc'],
+      limit: 3,
+      offset: 1,
+    });
+    expect(meta).toEqual({ totalCount: 6, currentCount: 3, limit: 3, offset: 1 });
+    expect(result).toEqual([
+      { role: 'guest', status: 'inactive', count: 16 },
+      { role: 'user', status: 'inactive', count: 17 },
+      { role: 'guest', status: 'active', count: 17 },
+    ]);
+  });
+
+  test('null 값 처리: null / undefined 그룹, 집계에서 제외', () => {
+    const falsyTable = new TableData(sampleDataWithFalsy);
+    const { result } = falsyTable.aggregate({
+      groupBy: 'grade',
+      metrics: {
+        rows: { fn: 'count' },
+        scored: { fn: 'count', field: 'score' },
+        total: { fn: 'sum', field: 'score' },
+        average: { fn: 'avg', field: 'score' },
+        lowest: { fn: 'min', field: 'score' },
+      },
+      sort: 'total:desc',
+    });
+    expect(result).toEqual([
+      { grade: 'A', rows: 3, scored: 3, total: 275, average: 275 / 3, lowest: 80 },
+      { grade: 'B', rows: 2, scored: 2, total: 50, average: 25, lowest: 0 },
+      { grade: null, rows: 2, scored: 1, total: 0, average: 0, lowest: 0 },
+      { grade: '', rows: 2, scored: 2, total: 0, average: 0, lowest: 0 },
+      { grade: 'C', rows: 1, scored: 0, total: 0, average: null, lowest: null },
+    ]);
+  });
+
+  test('경로 키 groupBy는 중첩 객체로 반환', () => {
+    const nested = new TableData([
+      { id: 1, address: { city: 'Seoul' }, amount: 10 },
+      { id: 2, address: { city: 'Busan' }, amount: 20 },
+      { id: 3, address: { city: 'Seoul' }, amount: 5 },
+    ]);
+    const { result } = nested.aggregate({
+      groupBy: 'address.city',
+      metrics: { amount: { fn: 'sum', field: 'amount' } },
+      sort: 'address.city:asc',
+    });
+    expect(result).toEqual([
+      { address: { city: 'Busan' }, amount: 20 },
+      { address: { city: 'Seoul' }, amount: 15 },
+    ]);
+  });
+
+  test('잘못된 metric은 에러', () => {
+    expect(() => table.aggregate({ metrics: { x: { fn: 'median' as any, field: 'id' } } })).toThrow(
+      "Invalid aggregate function for 'x': median",
+    );
+    expect(() => table.aggregate({ metrics: { x: { fn: 'sum' } } })).toThrow("Missing aggregate field for 'x'");
+  });
+});
+
+describe('facets - 컬럼별 값 목록과 개수', () => {
+  const table = new TableData(sampleData, { primaryKey: 'id' });
+
+  test('각 컬럼은 자기 자신의 조건을 제외하고 집계', () => {
+    const facets = table.facets(['role', 'status'], [{ role: 'admin' }, { status: 'active' }]);
+    expect(facets.role).toEqual({
+      values: [
+        { value: 'admin', count: 17 },
+        { value: 'guest', count: 17 },
+        { value: 'user', count: 16 },
+      ],
+    });
+    expect(facets.status.values).toEqual([
+      { value: 'active', count: 17 },
+      { value: 'inactive', count: 17 },
+    ]);
+  });
+
+  test('같은 컬럼만 가진 OR 그룹도 제외, 다른 컬럼과 섞인 그룹은 유지', () => {
+    const multiSelect = { logic: 'OR' as const, conditions: [{ role: 'admin' }, { role: 'user' }] };
+    expect(table.facets(['role'], [multiSelect]).role.values.map((v) => v.count)).toEqual([34, 33, 33]);
+
+    const mixed = { logic: 'OR' as const, conditions: [{ role: 'admin' }, { status: 'active' }] };
+    expect(table.facets(['role'], [mixed]).role.values).toEqual([
+      { value: 'admin', count: 34 },
+      { value: 'guest', count: 17 },
+      { value: 'user', count: 16 },
+    ]);
+  });
+
+  test('숫자 컬럼은 min / max / 구간별 개수', () => {
+    const { id } = table.facets([{ column: 'id', buckets: 4, limit: 2 }], [{ role: 'admin' }, { status: 'active' }]);
+    expect(id.values).toEqual([
+      { value: 1, count: 1 },
+      { value: 7, count: 1 },
+    ]);
+    expect(id.min).toBe(1);
+    expect(id.max).toBe(97);
+    expect(id.buckets).toEqual([
+      { from: 1, to: 25, count: 4 },
+      { from: 25, to: 49, count: 4 },
+      { from: 49, to: 73, count: 4 },
+      { from: 73, to: 97, count: 5 },
+    ]);
+  });
+
+  test('날짜 컬럼은 type 또는 스키마로 지정', () => {
+    const { createdAt } = table.facets([{ column: 'createdAt', type: 'date', buckets: 2 }]);
+    expect(createdAt.min).toBe('2023-01-01');
+    expect(createdAt.max).toBe('2023-01-28');
+    expect(createdAt.buckets).toEqual([
+      { from: '2023-01-01T00:00:00.000Z', to: '2023-01-14T12:00:00.000Z', count: 56 },
+      { from: '2023-01-14T12:00:00.000Z', to: '2023-01-28T00:00:00.000Z', count: 44 },
+    ]);
+
+    const withSchema = new TableData(sampleData, { schema: { createdAt: { type: 'date' } } });
+    expect(withSchema.facets(['createdAt']).createdAt.max).toBe('2023-01-28');
+    // 문자열 컬럼은 min / max 없음
+    expect(table.facets(['createdAt']).createdAt.min).toBeUndefined();
+  });
+
+  test('null / 배열 값 처리', () => {
+    const tagged = new TableData([
+      { id: 1, tags: ['a', 'b'], score: null },
+      { id: 2, tags: ['b'], score: 5 },
+      { id: 3, tags: null },
+    ]);
+    const facets = tagged.facets(['tags', 'score']);
+    expect(facets.tags.values).toEqual([
+      { value: 'b', count: 2 },
+      { value: 'a', count: 1 },
+      { value: null, count: 1 },
+    ]);
+    expect(facets.score).toEqual({
+      values: [
+        { value: null, count: 2 },
+        { value: 5, count: 1 },
+      ],
+      min: 5,
+      max: 5,
+      buckets: [{ from: 5, to: 5, count: 1 }],
+    });
+  });
+});
+
+describe('selectRowsByCursor - cursor 페이지네이션', () => {
+  const createTable = () =>
+    new TableData(
+      sampleData.map((row) => ({ ...row })),
+      { primaryKey: 'id' },
+    );
+
+  const readAll = (table: TableData, limit: number, conditions: ConditionItem[] = [], sort?: any) => {
+    const ids: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const { result, meta } = table.selectRowsByCursor(limit, cursor, conditions, sort);
+      ids.push(...result.map((r) => r.id));
+      cursor = meta.nextCursor ?? undefined;
+      expect(meta.hasMore).toBe(!!meta.nextCursor);
+    } while (cursor);
+    return ids;
+  };
+
+  test('cursor 없이 첫 페이지, nextCursor로 이어서 조회', () => {
+    const table = createTable();
+    const first = table.selectRowsByCursor(10);
+    expect(first.result.map((r) => r.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(first.meta).toMatchObject({ totalCount: 100, currentCount: 10, limit: 10, prevCursor: null, hasMore: true });
+    expect(typeof first.meta.nextCursor).toBe('string');
+
+    expect(readAll(table, 7)).toEqual(sampleData.map((r) => r.id));
+  });
+
+  test('동순위 값은 primaryKey로 정렬해서 누락 / 중복 없음', () => {
+    const table = createTable();
+    const ids = readAll(table, 6, [], ['role:asc', 'createdAt:desc']);
+    const expected = table.sortedList(table.dataSource, ['role:asc', 'createdAt:desc', 'id:asc']).map((r) => r.id);
+    expect(ids).toEqual(expected);
+  });
+
+  test('조건과 desc 정렬', () => {
+    const table = createTable();
+    const ids = readAll(table, 4, [{ role: 'admin' }], 'id:desc');
+    expect(ids).toEqual(
+      sampleData
+        .filter((r) => r.role === 'admin')
+        .map((r) => r.id)
+        .reverse(),
+    );
+  });
+
+  test('페이지 사이에 row가 추가 / 삭제되어도 이어서 조회', () => {
+    const table = createTable();
+    const first = table.selectRowsByCursor(5);
+    table.insertRow({ id: 0, name: 'first' });
+    table.deleteRow([{ id: 5 }]);
+    table.deleteRow([{ id: 6 }]);
+
+    const second = table.selectRowsByCursor(5, first.meta.nextCursor!);
+    expect(second.result.map((r) => r.id)).toEqual([7, 8, 9, 10, 11]);
+  });
+
+  test('before: cursor 이전 페이지 조회', () => {
+    const table = createTable();
+    const first = table.selectRowsByCursor(5);
+    const second = table.selectRowsByCursor(5, first.meta.nextCursor!);
+    expect(second.meta.prevCursor).not.toBeNull();
+
+    const back = table.selectRowsByCursor(5, { before: second.meta.prevCursor! });
+    expect(back.result.map((r) => r.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(back.meta).toMatchObject({ prevCursor: null, hasMore: false });
+    expect(back.meta.nextCursor).not.toBeNull();
+
+    const last = table.selectRowsByCursor(3, { before: table.selectRowsByCursor(99).meta.nextCursor! });
+    expect(last.result.map((r) => r.id)).toEqual([96, 97, 98]);
+  });
+
+  test('limit 0 / limit 없음', () => {
+    const table = createTable();
+    expect(table.selectRowsByCursor(0).result).toEqual([]);
+    const all = table.selectRowsByCursor();
+    expect(all.result).toHaveLength(100);
+    expect(all.meta).toMatchObject({ nextCursor: null, hasMore: false });
+  });
+
+  test('잘못된 cursor / 정렬 조건 변경 / primaryKey 없음은 에러', () => {
+    const table = createTable();
+    const cursor = table.selectRowsByCursor(5, undefined, [], 'name:asc').meta.nextCursor!;
+    expect(() => table.selectRowsByCursor(5, 'not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => table.selectRowsByCursor(5, cursor, [], 'name:desc')).toThrow('Invalid cursor');
+    expect(() => table.selectRowsByCursor(5, { after: cursor, before: cursor }, [], 'name:asc')).toThrow(
+      'Invalid cursor: after and before cannot be used together',
+    );
+    expect(() => new TableData(sampleData).selectRowsByCursor(5)).toThrow('Cursor pagination requires primaryKey');
+  });
+
+  test('변조된 cursor의 undefined 위치 목록(u)이 잘못되면 에러', () => {
+    const table = createTable();
+    const cursor = table.selectRowsByCursor(5, undefined, [], 'name:asc').meta.nextCursor!;
+    const tamper = (u: any) => {
+      const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      return Buffer.from(JSON.stringify({ ...payload, u })).toString('base64url');
+    };
+
+    for (const u of [1, 'x', { 0: 0 }, [2], [-1], [0.5]]) {
+      expect(() => table.selectRowsByCursor(5, tamper(u), [], 'name:asc')).toThrow(`Invalid cursor: ${tamper(u)}`);
+    }
+    expect(() => table.selectRowsByCursor(5, tamper([0]), [], 'name:asc')).not.toThrow();
+  });
+});
+
+describe('selectPage / limit 경계값', () => {
+  const table = new TableData(sampleData, { primaryKey: 'id' });
+
+  test('page / pageSize로 조회', () => {
+    const { result, meta } = table.selectPage(2, 10, [], 'id:asc');
+    expect(result.map((r) => r.id)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(meta).toEqual({
+      totalCount: 100,
+      currentCount: 10,
+      limit: 10,
+      offset: 10,
+      page: 2,
+      pageSize: 10,
+      totalPages: 10,
+      hasNext: true,
+      hasPrev: true,
+    });
+  });
+
+  test('범위를 벗어난 page는 보정', () => {
+    expect(table.selectPage(0, 30).meta).toMatchObject({ page: 1, hasPrev: false, hasNext: true });
+    expect(table.selectPage('abc', 30).meta.page).toBe(1);
+
+    const last = table.selectPage(999, 30, [{ role: 'admin' }]);
+    expect(last.meta).toMatchObject({ page: 2, totalPages: 2, currentCount: 4, hasNext: false, hasPrev: true });
+    expect(last.result.map((r) => r.id)).toEqual([91, 94, 97, 100]);
+  });
+
+  test('pageSize가 없으면 전체가 한 페이지, 0이면 빈 결과', () => {
+    expect(table.selectPage(3).meta).toMatchObject({ page: 1, pageSize: null, totalPages: 1, currentCount: 100 });
+    expect(table.selectPage(1, 0).meta).toMatchObject({ page: 1, pageSize: 0, totalPages: 0, currentCount: 0 });
+  });
+
+  test('결과가 없으면 page 1, totalPages 0', () => {
+    const { result, meta } = table.selectPage(5, 10, [{ role: 'owner' }]);
+    expect(result).toEqual([]);
+    expect(meta).toMatchObject({ page: 1, totalPages: 0, hasNext: false, hasPrev: false, totalCount: 0 });
+  });
+
+  test('selectRows limit 경계값', () => {
+    // 0: 빈 결과지만 totalCount는 유지
+    expect(table.selectRows(0, 0, [], undefined, true).meta).toEqual({
+      totalCount: 100,
+      currentCount: 0,
+      limit: 0,
+      offset: 0,
+    });
+    // undefined / 숫자가 아닌 값: 전체
+    expect(table.selectRows(undefined, undefined, [], undefined, true).meta.limit).toBeNull();
+    expect(table.selectRows('abc', '5')).toHaveLength(95);
+    // 음수 offset은 0
+    expect(table.selectRows(3, -10).map((r) => r.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('transaction - commit / rollback', () => {
+  const createTable = () =>
+    new TableData(
+      [
+        { id: 1, name: 'Alice', role: 'admin' },
+        { id: 2, name: 'Bob', role: 'user' },
+        { id: 3, name: 'Charlie', role: 'user' },
+      ],
+      { primaryKey: 'id', indexes: ['role'] },
+    );
+
+  test('transaction: 에러가 발생하면 모든 변경을 rollback', () => {
+    const table = createTable();
+    const before = [...table.dataSource];
+
+    expect(() =>
+      table.transaction((t) => {
+        t.insertRow({ name: 'Dave', role: 'user' });
+        t.updateRow([{ id: 1 }], { role: 'user' }, { patch: true });
+        t.deleteRow([{ id: 2 }]);
+        t.updateRow([{ id: 99 }], { name: 'x' });
+      }),
+    ).toThrow('not found condition');
+
+    expect(table.inTransaction).toBe(false);
+    // 같은 row 객체와 순서로 복원
+    expect(table.dataSource).toHaveLength(3);
+    table.dataSource.forEach((row, i) => expect(row).toBe(before[i]));
+    // primaryKey / 보조 인덱스 / getNewId도 복원
+    expect(table.selectRow([{ id: 2 }])).toBe(before[1]);
+    expect(table.selectRow([{ id: 4 }])).toBeUndefined();
+    expect(table.filteredList([{ role: 'user' }]).map((r) => r.id)).toEqual([2, 3]);
+    expect(table.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1]);
+    expect(table.getNewId()).toBe(4);
+  });
+
+  test('transaction: 성공하면 commit 후 결과 반환, 트랜잭션 안에서 커밋 전 변경 조회', () => {
+    const table = createTable();
+    const inserted = table.transaction((t) => {
+      const row = t.insertRow({ name: 'Dave', role: 'admin' });
+      expect(t.inTransaction).toBe(true);
+      expect(t.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1, 4]);
+      expect(t.selectRows(undefined, undefined, [], 'id:desc', true).meta.totalCount).toBe(4);
+      return row;
+    });
+    expect(inserted).toEqual({ id: 4, name: 'Dave', role: 'admin' });
+    expect(table.selectRow([{ id: 4 }])).toBe(inserted);
+    expect(table.inTransaction).toBe(false);
+  });
+
+  test('begin / commit / rollback 및 중첩 savepoint', () => {
+    const table = createTable();
+    table.begin();
+    table.insertRow({ name: 'Dave', role: 'user' });
+
+    table.begin();
+    table.deleteRows([{ role: 'user' }]);
+    expect(table.dataSource.map((r) => r.id)).toEqual([1]);
+    table.rollback();
+    expect(table.dataSource.map((r) => r.id)).toEqual([1, 2, 3, 4]);
+
+    table.begin();
+    table.updateRows([{ id: 4 }], { role: 'admin' });
+    table.commit();
+    expect(table.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1, 4]);
+
+    // 바깥 트랜잭션 rollback은 커밋된 savepoint 변경도 되돌림
+    table.rollback();
+    expect(table.dataSource.map((r) => r.id)).toEqual([1, 2, 3]);
+    expect(table.filteredList([{ role: 'admin' }]).map((r) => r.id)).toEqual([1]);
+    expect(() => table.commit()).toThrow('No active transaction');
+    expect(() => table.rollback()).toThrow('No active transaction');
+  });
+
+  test('중첩 transaction: 안쪽 실패를 잡으면 바깥 변경은 유지', () => {
+    const table = createTable();
+    table.transaction((t) => {
+      t.updateRow([{ id: 1 }], { name: 'Alicia' }, { patch: true });
+      expect(() =>
+        t.transaction((inner) => {
+          inner.insertRow({ name: 'Dave' });
+          inner.insertRow({ id: 1, name: 'Duplicate' });
+        }),
+      ).toThrow('primary key duplicate error');
+      expect(t.dataSource).toHaveLength(3);
+    });
+    expect(table.selectRow([{ id: 1 }])?.name).toBe('Alicia');
+    expect(table.dataSource).toHaveLength(3);
+  });
+
+  test('rollback 시 트랜잭션 중 생성 / 삭제한 보조 인덱스도 복원', () => {
+    const table = createTable();
+    table.begin();
+    table.dropIndex('role');
+    table.createIndex('name');
+    table.insertRow({ name: 'Dave', role: 'user' });
+    table.rollback();
+
+    expect(table.indexes).toEqual(['role']);
+    expect(table.filteredList([{ role: 'user' }]).map((r) => r.id)).toEqual([2, 3]);
+  });
+
+  test('fn 안에서 commit 후 에러가 발생하면 원래 에러를 다시 던짐', () => {
+    const table = createTable();
+    const error = new Error('original');
+    let thrown: unknown;
+    try {
+      table.transaction((t) => {
+        t.insertRow({ name: 'Dave' });
+        t.commit();
+        throw error;
+      });
+    } catch (e) {
+      thrown = e;
+    }
+
+    expect(thrown).toBe(error);
+    expect(error.cause).toEqual(new Error('Transaction was closed inside callback'));
+    expect(table.inTransaction).toBe(false);
+    // 이미 commit된 변경은 유지
+    expect(table.dataSource).toHaveLength(4);
+  });
+
+  test('비동기 함수는 rollback 후 에러', () => {
+    const table = createTable();
+    expect(() =>
+      table.transaction(async (t) => {
+        t.insertRow({ name: 'Dave' });
+      }),
+    ).toThrow('Transaction callback must be synchronous');
+    expect(table.dataSource).toHaveLength(3);
+  });
+
+  test('비동기 함수가 reject해도 처리되지 않은 rejection이 남지 않음', async () => {
+    const table = createTable();
+    const onUnhandled = jest.fn();
+    process.on('unhandledRejection', onUnhandled);
+    try {
+      expect(() =>
+        table.transaction(async () => {
+          throw new Error('x');
+        }),
+      ).toThrow('Transaction callback must be synchronous');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(onUnhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+});
+
+describe('on - 변경 이벤트', () => {
+  const createTable = () =>
+    new TableData(
+      [
+        { id: 1, name: 'Alice', role: 'admin' },
+        { id: 2, name: 'Bob', role: 'user' },
+        { id: 3, name: 'Charlie', role: 'user' },
+      ],
+      { primaryKey: 'id' },
+    );
+
+  test('insert / update / delete 이벤트에 before / after row 전달', () => {
+    const table = createTable();
+    const events: TableChange[] = [];
+    table.on('insert', (e) => events.push(e));
+    table.on('update', (e) => events.push(e));
+    table.on('delete', (e) => events.push(e));
+
+    const inserted = table.insertRow({ name: 'Dave', role: 'user' });
+    const oldBob = table.selectRow([{ id: 2 }]);
+    table.updateRow([{ id: 2 }], { role: 'admin' }, { patch: true });
+    const newBob = table.selectRow([{ id: 2 }]);
+    const alice = table.selectRow([{ id: 1 }]);
+    table.deleteRow([{ id: 1 }]);
+
+    expect(events).toEqual([
+      { type: 'insert', before: null, after: inserted },
+      { type: 'update', before: oldBob, after: newBob },
+      { type: 'delete', before: alice, after: null },
+    ]);
+    expect(events[1].before).toBe(oldBob);
+    expect(events[1].after).toBe(newBob);
+  });
+
+  test('change: 쓰기 메서드 호출마다 변경 목록을 한 번에 전달', () => {
+    const table = createTable();
+    const changes: TableChange[][] = [];
+    table.on('change', (c) => changes.push(c));
+
+    table.insertRows([{ name: 'Dave' }, { name: 'Eve' }]);
+    table.updateRows([{ role: 'user' }], { role: 'guest' });
+    table.deleteRows([{ role: 'guest' }]);
+    table.upsertRow([{ id: 1 }], { name: 'Alicia' }, { patch: true });
+    table.upsertRow([{ id: 9 }], { name: 'Ivy' });
+
+    expect(changes.map((c) => c.map((e) => e.type))).toEqual([
+      ['insert', 'insert'],
+      ['update', 'update'],
+      ['delete', 'delete'],
+      ['update'],
+      ['insert'],
+    ]);
+    expect(changes[2].map((e) => e.before?.name)).toEqual(['Bob', 'Charlie']);
+    expect(changes[4][0].after).toEqual({ id: 9, name: 'Ivy' });
+  });
+
+  test('변경이 없거나 실패한 호출은 이벤트 없음', () => {
+    const table = createTable();
+    const listener = jest.fn();
+    table.on('change', listener);
+
+    table.updateRows([{ role: 'guest' }], { role: 'user' });
+    table.deleteRows([{ role: 'guest' }]);
+    expect(() => table.insertRows([{ id: 4 }, { id: 1 }])).toThrow('primary key duplicate error');
+    expect(() => table.updateRow([{ id: 9 }], { name: 'x' })).toThrow('not found condition');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('on이 반환한 함수 또는 off로 해제', () => {
+    const table = createTable();
+    const a = jest.fn();
+    const b = jest.fn();
+    const unsubscribe = table.on('insert', a);
+    table.on('insert', b);
+
+    unsubscribe();
+    table.off('insert', b);
+    table.insertRow({ name: 'Dave' });
+
+    expect(a).not.toHaveBeenCalled();
+    expect(b).not.toHaveBeenCalled();
+  });
+
+  test('트랜잭션 중 변경은 commit 시 한 번에 전달, rollback된 변경은 제외', () => {
+    const table = createTable();
+    const changes: TableChange[][] = [];
+    table.on('change', (c) => changes.push(c));
+
+    table.transaction((t) => {
+      t.insertRow({ name: 'Dave' });
+      expect(() =>
+        t.transaction((inner) => {
+          inner.deleteRow([{ id: 1 }]);
+          throw new Error('fail');
+        }),
+      ).toThrow('fail');
+      t.updateRow([{ id: 2 }], { name: 'Robert' }, { patch: true });
+      expect(changes).toHaveLength(0);
+    });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].map((e) => [e.type, e.after?.name])).toEqual([
+      ['insert', 'Dave'],
+      ['update', 'Robert'],
+    ]);
+
+    table.begin();
+    table.deleteRows([]);
+    table.rollback();
+    expect(changes).toHaveLength(1);
+  });
+
+  test('listener 안에서 변경하면 별도의 change로 전달', () => {
+    const table = createTable();
+    const changes: TableChange[][] = [];
+    table.on('insert', ({ after }) => {
+      if (after?.name === 'Dave') table.insertRow({ name: 'Dave (copy)' });
+    });
+    table.on('change', (c) => changes.push(c));
+
+    table.insertRow({ name: 'Dave' });
+
+    expect(changes.map((c) => c.map((e) => e.after?.name))).toEqual([['Dave (copy)'], ['Dave']]);
+  });
+});
+
+describe('subscribe - 조회 결과 구독', () => {
+  const createTable = () =>
+    new TableData(
+      [
+        { id: 1, name: 'Alice', role: 'admin', age: 30 },
+        { id: 2, name: 'Bob', role: 'user', age: 25 },
+        { id: 3, name: 'Charlie', role: 'user', age: 35 },
+      ],
+      { primaryKey: 'id' },
+    );
+
+  test('결과가 바뀔 때만 호출', () => {
+    const table = createTable();
+    const listener = jest.fn();
+    table.subscribe({ conditions: [{ role: 'user' }], sort: 'age:desc' }, listener);
+
+    table.updateRow([{ id: 1 }], { age: 31 }, { patch: true });
+    expect(listener).not.toHaveBeenCalled();
+
+    table.insertRow({ name: 'Dave', role: 'user', age: 40 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].result.map((r: any) => r.name)).toEqual(['Dave', 'Charlie', 'Bob']);
+    expect(listener.mock.calls[0][0].meta.totalCount).toBe(3);
+
+    table.updateRow([{ id: 2 }], { age: 26 }, { patch: true });
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].result[2]).toEqual({ id: 2, name: 'Bob', role: 'user', age: 26 });
+  });
+
+  test('limit / offset 범위 밖의 변경은 totalCount가 바뀔 때만 호출', () => {
+    const table = createTable();
+    const listener = jest.fn();
+    table.subscribe({ sort: 'age:asc', limit: 1 }, listener);
+
+    table.updateRow([{ id: 3 }], { name: 'Charles' }, { patch: true });
+    expect(listener).not.toHaveBeenCalled();
+
+    table.insertRow({ name: 'Dave', age: 50 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].result.map((r: any) => r.name)).toEqual(['Bob']);
+    expect(listener.mock.calls[0][0].meta.totalCount).toBe(4);
+
+    table.insertRow({ name: 'Eve', age: 20 });
+    expect(listener.mock.calls[1][0].result.map((r: any) => r.name)).toEqual(['Eve']);
+  });
+
+  test('같은 값으로 수정하면 호출하지 않음', () => {
+    const table = createTable();
+    const listener = jest.fn();
+    table.subscribe({ conditions: [{ role: 'admin' }] }, listener);
+
+    table.updateRow([{ id: 1 }], { name: 'Alice' }, { patch: true });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('트랜잭션은 commit 시 한 번만 호출, 해제 후에는 호출하지 않음', () => {
+    const table = createTable();
+    const listener = jest.fn();
+    const unsubscribe = table.subscribe({ conditions: [{ role: 'user' }] }, listener);
+
+    table.transaction((t) => {
+      t.insertRow({ name: 'Dave', role: 'user' });
+      t.insertRow({ name: 'Eve', role: 'user' });
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].meta.totalCount).toBe(4);
+
+    unsubscribe();
+    table.deleteRows([{ role: 'user' }]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+import TableData, { createEnvelope, createMswHandlers, jsonApiEnvelope, MswHttp, MswResolver } from '../index';
+
+type FakeHandler = { method: string; path: string; resolver: MswResolver };
+
+// msw의 http 네임스페이스 대신 등록된 핸들러를 기록
+const fakeHttp: MswHttp<FakeHandler> = {
+  get: (path, resolver) => ({ method: 'GET', path, resolver }),
+  post: (path, resolver) => ({ method: 'POST', path, resolver }),
+  put: (path, resolver) => ({ method: 'PUT', path, resolver }),
+  patch: (path, resolver) => ({ method: 'PATCH', path, resolver }),
+  delete: (path, resolver) => ({ method: 'DELETE', path, resolver }),
+};
+
+// 등록된 핸들러 중 method / 경로가 일치하는 핸들러로 요청 처리 (':id'만 지원)
+const request = (handlers: FakeHandler[], method: string, path: string, body?: any) => {
+  const url = new URL(path, 'http://localhost');
+  for (const handler of handlers) {
+    const pattern = new RegExp(`^${handler.path.replace(':id', '([^/]+)')}$`);
+    const matched = url.pathname.match(pattern);
+    if (handler.method === method && matched) {
+      const init = body === undefined ? { method } : { method, body: JSON.stringify(body) };
+      return handler.resolver({ request: new Request(url, init), params: matched[1] ? { id: matched[1] } : {} });
+    }
+  }
+  throw new Error(`No handler: ${method} ${path}`);
+};
+
+const createTable = () =>
+  new TableData(
+    [
+      { id: 1, name: 'Alice', role: 'admin' },
+      { id: 2, name: 'Bob', role: 'user' },
+    ],
+    { primaryKey: 'id' },
+  );
+
+describe('createMswHandlers', () => {
+  test('목록 / 단건 / 생성 / 수정 / 삭제 핸들러 등록', () => {
+    const handlers = createMswHandlers(createTable(), '/api/users/', { http: fakeHttp });
+    expect(handlers.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'GET /api/users',
+      'POST /api/users',
+      'GET /api/users/:id',
+      'PUT /api/users/:id',
+      'PATCH /api/users/:id',
+      'DELETE /api/users/:id',
+    ]);
+  });
+
+  test('요청 처리 및 상태 코드', async () => {
+    const table = createTable();
+    const handlers = createMswHandlers(table, '/api/users', { http: fakeHttp });
+
+    const list = await request(handlers, 'GET', '/api/users?role=user');
+    expect(list.status).toBe(200);
+    expect(await list.json()).toEqual({
+      result: [{ id: 2, name: 'Bob', role: 'user' }],
+      meta: { totalCount: 1, currentCount: 1, limit: null, offset: 0 },
+    });
+
+    const created = await request(handlers, 'POST', '/api/users', { name: 'Charlie' });
+    expect(created.status).toBe(201);
+    expect(created.headers.get('Location')).toBe('/api/users/3');
+    expect(await created.json()).toEqual({ id: 3, name: 'Charlie' });
+
+    expect(await (await request(handlers, 'GET', '/api/users/3')).json()).toEqual({ id: 3, name: 'Charlie' });
+    expect(await (await request(handlers, 'PUT', '/api/users/3', { name: 'Chuck' })).json()).toEqual({
+      id: 3,
+      name: 'Chuck',
+    });
+    expect(await (await request(handlers, 'PATCH', '/api/users/3', { role: 'user' })).json()).toEqual({
+      id: 3,
+      name: 'Chuck',
+      role: 'user',
+    });
+
+    const deleted = await request(handlers, 'DELETE', '/api/users/3');
+    expect(deleted.status).toBe(204);
+    expect(await deleted.text()).toBe('');
+    expect(table.dataSource).toHaveLength(2);
+
+    expect((await request(handlers, 'GET', '/api/users/3')).status).toBe(404);
+    expect((await request(handlers, 'PATCH', '/api/users/3', { name: 'x' })).status).toBe(404);
+    expect((await request(handlers, 'POST', '/api/users', { id: 1 })).status).toBe(409);
+  });
+
+  test('envelope / parseQuery 설정', async () => {
+    const handlers = createMswHandlers(createTable(), '/users', {
+      http: fakeHttp,
+      envelope: jsonApiEnvelope({ type: 'users', baseUrl: '/users' }),
+      query: { operatorStyle: 'bracket' },
+    });
+    const response = await request(handlers, 'GET', '/users?filter[id][gt]=1&page[size]=1');
+    expect(await response.json()).toEqual({
+      data: [{ type: 'users', id: '2', attributes: { name: 'Bob', role: 'user' } }],
+      meta: { totalCount: 1, currentCount: 1, limit: 1, offset: 0 },
+      links: {
+        self: '/users?page[number]=1&page[size]=1',
+        first: '/users?page[number]=1&page[size]=1',
+        prev: null,
+        next: null,
+        last: '/users?page[number]=1&page[size]=1',
+      },
+    });
+
+    const custom = createMswHandlers(createTable(), '/users', {
+      http: fakeHttp,
+      parseQuery: (params) => ({ conditions: { conditions: [{ name: params.get('q'), like: true }] } }),
+      envelope: createEnvelope({ format: ({ result }) => result.map((row) => row.name) }),
+    });
+    expect(await (await request(custom, 'GET', '/users?q=b')).json()).toEqual(['Bob']);
+  });
+});
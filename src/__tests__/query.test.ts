@@ -0,0 +1,159 @@
+import TableData, { jsonApiEnvelope, parseQuery, proTableEnvelope, springPageEnvelope, stringifyQuery } from '../index';
+
+const table = new TableData(
+  [
+    { id: 1, name: 'Alice', role: 'admin', age: 31 },
+    { id: 2, name: 'Bob', role: 'user', age: 25 },
+    { id: 3, name: 'Charlie', role: 'user', age: 42 },
+    { id: 4, name: 'Alina', role: 'guest', age: 19 },
+  ],
+  { primaryKey: 'id' },
+);
+
+describe('parseQuery', () => {
+  test('URL 문자열 / URLSearchParams / query 객체', () => {
+    const expected = {
+      limit: 10,
+      offset: 20,
+      sort: ['name:desc'],
+      conditions: { logic: 'AND', conditions: [{ role: 'admin' }] },
+    };
+    expect(parseQuery('/api/users?limit=10&offset=20&sort=name:desc&role=admin')).toEqual(expected);
+    expect(parseQuery(new URLSearchParams('limit=10&offset=20&sort=name:desc&role=admin'))).toEqual(expected);
+    expect(parseQuery({ limit: '10', offset: 20, sort: 'name:desc', role: 'admin' })).toEqual(expected);
+  });
+
+  test('suffix 연산자 (json-server 스타일)', () => {
+    const query = parseQuery('name_like=al&age_gte=20&age_lte=40&role_ne=guest&id_in=1,2,3&first_name=x&memo=');
+    expect(query.conditions).toEqual({
+      logic: 'AND',
+      conditions: [
+        { name: 'al', like: true },
+        { age: '20', operator: 'gte' },
+        { age: '40', operator: 'lte' },
+        { role: 'guest', operator: 'ne' },
+        { id: ['1', '2', '3'], operator: 'in' },
+        { first_name: 'x' },
+      ],
+    });
+    expect(table.selectRows(undefined, undefined, parseQuery('name_like=al&age_gte=20').conditions)).toEqual([
+      { id: 1, name: 'Alice', role: 'admin', age: 31 },
+    ]);
+  });
+
+  test('같은 키 반복은 in, between의 빈 경계는 열린 구간', () => {
+    const query = parseQuery('role=admin&role=guest&age_between=,30');
+    expect(query.conditions).toEqual({
+      logic: 'AND',
+      conditions: [
+        { role: ['admin', 'guest'], operator: 'in' },
+        { age: [null, '30'], operator: 'between' },
+      ],
+    });
+    expect(table.selectRows(undefined, undefined, query.conditions).map((row) => row.id)).toEqual([4]);
+  });
+
+  test('bracket 연산자 및 구분자 설정', () => {
+    const query = parseQuery('age[gt]=20&role[]=user&role[]=admin&name[startsWith]=b&tags[0]=a', {
+      operatorStyle: 'bracket',
+    });
+    expect(query.conditions).toEqual({
+      logic: 'AND',
+      conditions: [
+        { age: '20', operator: 'gt' },
+        { role: ['user', 'admin'], operator: 'in' },
+        { name: 'b', match: 'startsWith' },
+        { 'tags[0]': 'a' },
+      ],
+    });
+
+    const custom = parseQuery('age__between=20|40&role__nin=admin', { suffixSeparator: '__', valueSeparator: '|' });
+    expect(table.selectRows(undefined, undefined, custom.conditions).map((row) => row.id)).toEqual([2]);
+  });
+
+  test('envelope별 페이징 / 정렬 파라미터', () => {
+    const spring = parseQuery('?page=2&size=20&sort=name,desc&role=admin&name_like=ali', {
+      envelope: springPageEnvelope(),
+    });
+    expect(spring).toEqual({
+      limit: 20,
+      offset: 40,
+      sort: ['name:desc'],
+      conditions: { logic: 'AND', conditions: [{ role: 'admin' }, { name: 'ali', like: true }] },
+    });
+
+    const jsonApi = parseQuery('page[number]=1&page[size]=2&sort=-age&filter[age][gte]=20', {
+      envelope: jsonApiEnvelope({ type: 'users' }),
+      operatorStyle: 'bracket',
+    });
+    const { limit, offset, conditions, sort } = jsonApi;
+    expect(table.selectRows(limit, offset, conditions, sort).map((row) => row.id)).toEqual([3, 1]);
+  });
+});
+
+describe('stringifyQuery', () => {
+  test('TableQuery → query 문자열', () => {
+    const search = stringifyQuery({
+      limit: 10,
+      offset: 0,
+      sort: ['name:desc'],
+      conditions: [
+        { name: 'al', like: true },
+        { age: 20, operator: 'gte' },
+        { role: ['admin', 'user'], operator: 'notIn' },
+        { age: [null, 30], operator: 'between' },
+        { id: 3 },
+      ],
+    });
+    expect(decodeURIComponent(search)).toBe(
+      'name_like=al&age_gte=20&role_nin=admin,user&age_between=,30&id=3&limit=10&offset=0&sort=name:desc',
+    );
+  });
+
+  test('parseQuery와 왕복 변환', () => {
+    const query = parseQuery('filter[name][contains]=li&filter[age][lt]=40&page[number]=2&page[size]=1&sort=-age', {
+      envelope: jsonApiEnvelope({ type: 'users' }),
+      operatorStyle: 'bracket',
+    });
+    const options = { envelope: jsonApiEnvelope({ type: 'users' }), operatorStyle: 'bracket' as const };
+    const search = stringifyQuery(query, options);
+    expect(decodeURIComponent(search)).toBe(
+      'page[number]=2&page[size]=1&sort=-age&filter[name][contains]=li&filter[age][lt]=40',
+    );
+    expect(parseQuery(search, options)).toEqual(query);
+
+    const springOptions = { envelope: springPageEnvelope() };
+    const springSearch = stringifyQuery({ limit: 20, offset: 40, sort: ['name:desc', 'id:asc'] }, springOptions);
+    expect(decodeURIComponent(springSearch)).toBe('page=2&size=20&sort=name,desc&sort=id,asc');
+    expect(parseQuery(springSearch, springOptions)).toMatchObject({
+      limit: 20,
+      offset: 40,
+      sort: ['name:desc', 'id:asc'],
+    });
+
+    const proTableOptions = { envelope: proTableEnvelope() };
+    const proTableSearch = stringifyQuery(
+      { limit: 10, offset: 10, sort: ['age:desc'], conditions: [{ role: 'user' }] },
+      proTableOptions,
+    );
+    expect(parseQuery(proTableSearch, proTableOptions)).toEqual({
+      limit: 10,
+      offset: 10,
+      sort: ['age:descend'],
+      conditions: { logic: 'AND', conditions: [{ role: 'user' }] },
+    });
+  });
+
+  test('파라미터로 나타낼 수 없는 조건은 에러', () => {
+    expect(() => stringifyQuery({ conditions: { logic: 'OR', conditions: [{ a: 1 }, { b: 2 }] } })).toThrow(
+      'Cannot serialize condition',
+    );
+    expect(() => stringifyQuery({ conditions: [{ a: 'x', negate: true }] })).toThrow('Cannot serialize condition');
+    expect(() => stringifyQuery({ conditions: [{ a: 'x', like: true, operator: 'ne' }] })).toThrow(
+      'Cannot serialize condition',
+    );
+    expect(() => stringifyQuery({ conditions: [{ a: { last: 7, unit: 'day' } }] })).toThrow(
+      "Cannot serialize condition value for key 'a'",
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import TableData, { createRestHandler, springPageEnvelope, toNodeListener } from '../index';
+
+const createResources = () => ({
+  users: new TableData(
+    [
+      { id: 1, name: 'Alice', role: 'admin' },
+      { id: 2, name: 'Bob', role: 'user' },
+      { id: 3, name: 'Charlie', role: 'user' },
+    ],
+    { primaryKey: 'id', schema: { name: { type: 'string', required: true } } },
+  ),
+  logs: new TableData([{ message: 'hello' }]),
+});
+
+describe('createRestHandler - 조회', () => {
+  test('GET 목록: query string → selectRows meta 결과', () => {
+    const handler = createRestHandler(createResources());
+    const response = handler({ method: 'GET', url: '/users?role=user&sort=id:desc&limit=1' });
+    expect(response).toEqual({
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        result: [{ id: 3, name: 'Charlie', role: 'user' }],
+        meta: { totalCount: 2, currentCount: 1, limit: 1, offset: 0 },
+      },
+    });
+  });
+
+  test('basePath / envelope / query 옵션', () => {
+    const handler = createRestHandler(createResources(), {
+      basePath: '/api/',
+      envelope: springPageEnvelope({ defaultSize: 2 }),
+      query: { operatorStyle: 'bracket' },
+    });
+    const response = handler({ method: 'get', url: 'http://localhost:4000/api/users?id[gte]=2&sort=name,desc' });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ totalElements: 2, size: 2, number: 0 });
+    expect(response.body.content.map((row: any) => row.name)).toEqual(['Charlie', 'Bob']);
+
+    expect(handler({ method: 'GET', url: '/users' }).status).toBe(404);
+  });
+
+  test('GET 단건: primaryKey로 조회, 없으면 404', () => {
+    const handler = createRestHandler(createResources());
+    expect(handler({ method: 'GET', url: '/users/2' })).toMatchObject({ status: 200, body: { id: 2, name: 'Bob' } });
+    expect(handler({ method: 'GET', url: '/users/9' })).toMatchObject({ status: 404, body: { error: 'Not Found' } });
+    expect(handler({ method: 'GET', url: '/unknown' }).status).toBe(404);
+    expect(handler({ method: 'GET', url: '/users/1/extra' }).status).toBe(404);
+    // primaryKey가 없는 리소스는 단건 요청 불가
+    expect(handler({ method: 'GET', url: '/logs/1' }).status).toBe(405);
+  });
+});
+
+describe('createRestHandler - 변경', () => {
+  test('POST: 201, Location 헤더', () => {
+    const resources = createResources();
+    const handler = createRestHandler(resources, { basePath: '/api' });
+    const response = handler({ method: 'POST', url: '/api/users', body: '{"name":"Dave","role":"user"}' });
+    expect(response).toEqual({
+      status: 201,
+      headers: { 'Content-Type': 'application/json', Location: '/api/users/4' },
+      body: { id: 4, name: 'Dave', role: 'user' },
+    });
+    expect(resources.users.dataSource).toHaveLength(4);
+  });
+
+  test('PUT은 교체, PATCH는 병합', () => {
+    const resources = createResources();
+    const handler = createRestHandler(resources);
+    expect(handler({ method: 'PUT', url: '/users/2', body: { name: 'Bobby' } })).toMatchObject({
+      status: 200,
+      body: { id: 2, name: 'Bobby' },
+    });
+    expect(resources.users.selectRow([{ id: 2 }])).toEqual({ id: 2, name: 'Bobby' });
+
+    expect(handler({ method: 'PATCH', url: '/users/1', body: { role: 'user' } }).body).toEqual({
+      id: 1,
+      name: 'Alice',
+      role: 'user',
+    });
+  });
+
+  test('DELETE: 204', () => {
+    const resources = createResources();
+    const handler = createRestHandler(resources);
+    expect(handler({ method: 'DELETE', url: '/users/1' })).toEqual({ status: 204, headers: {} });
+    expect(resources.users.dataSource.map((row) => row.id)).toEqual([2, 3]);
+  });
+
+  test('에러 상태 코드', () => {
+    const handler = createRestHandler(createResources());
+    // not found condition
+    expect(handler({ method: 'PATCH', url: '/users/9', body: { name: 'x' } }).status).toBe(404);
+    expect(handler({ method: 'DELETE', url: '/users/9' }).status).toBe(404);
+    // primary key duplicate error
+    expect(handler({ method: 'POST', url: '/users', body: { id: 1, name: 'x' } })).toMatchObject({
+      status: 409,
+      body: { error: 'primary key duplicate error' },
+    });
+    expect(handler({ method: 'PATCH', url: '/users/1', body: { id: 2 } }).status).toBe(409);
+    // 스키마 검증 실패
+    const invalid = handler({ method: 'POST', url: '/users', body: { role: 'user' } });
+    expect(invalid.status).toBe(422);
+    expect(invalid.body.errors).toEqual([{ field: 'name', message: 'Missing required field: name', value: undefined }]);
+    // 잘못된 요청
+    expect(handler({ method: 'POST', url: '/users', body: '{invalid' })).toMatchObject({
+      status: 400,
+      body: { error: 'Invalid JSON body' },
+    });
+    expect(handler({ method: 'POST', url: '/users' }).status).toBe(400);
+    expect(handler({ method: 'GET', url: '/users?id_in=' }).status).toBe(200);
+    expect(handler({ method: 'GET', url: '/users?id_between=1' }).status).toBe(400);
+    // 지원하지 않는 메서드
+    expect(handler({ method: 'DELETE', url: '/users' }).status).toBe(405);
+    expect(handler({ method: 'POST', url: '/users/1' }).status).toBe(405);
+  });
+});
+
+describe('toNodeListener', () => {
+  test('Node http 서버', async () => {
+    const server = http.createServer(toNodeListener(createRestHandler(createResources())));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const request = (method: string, path: string, body?: any) =>
+      new Promise<{ status?: number; headers: http.IncomingHttpHeaders; body: string }>((resolve, reject) => {
+        const req = http.request({ host: '127.0.0.1', port, method, path }, (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: data }));
+        });
+        req.on('error', reject);
+        req.end(body === undefined ? undefined : JSON.stringify(body));
+      });
+
+    try {
+      const created = await request('POST', '/users', { name: 'Dave' });
+      expect(created.status).toBe(201);
+      expect(created.headers.location).toBe('/users/4');
+      expect(JSON.parse(created.body)).toEqual({ id: 4, name: 'Dave' });
+
+      const list = await request('GET', '/users?name_like=a&sort=id:desc');
+      expect(JSON.parse(list.body).result.map((row: any) => row.id)).toEqual([4, 3, 1]);
+
+      const deleted = await request('DELETE', '/users/4');
+      expect(deleted.status).toBe(204);
+      expect(deleted.body).toBe('');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
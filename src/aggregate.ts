@@ -0,0 +1,85 @@
+import { get, set } from 'lodash/fp';
+
+type Row = Record<string, any>;
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'countDistinct';
+
+export const AGGREGATE_FUNCTIONS: readonly AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max', 'countDistinct'];
+
+// field가 없는 count는 row 수, 그 외에는 null / undefined가 아닌 값만 집계
+export type AggregateMetric = {
+  fn: AggregateFunction;
+  field?: string;
+};
+
+function isPresent(value: any): boolean {
+  return value !== null && value !== undefined;
+}
+
+function toNumber(value: any): number | undefined {
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+function computeMetric(rows: Row[], { fn, field }: AggregateMetric): any {
+  if (fn === 'count' && field === undefined) return rows.length;
+
+  const values = rows.map((row) => get(field!, row)).filter(isPresent);
+  switch (fn) {
+    case 'count':
+      return values.length;
+    case 'countDistinct':
+      return new Set(values).size;
+    case 'min':
+    case 'max':
+      if (!values.length) return null;
+      return values.reduce((a, b) => ((fn === 'min' ? b < a : b > a) ? b : a));
+    default: {
+      const numbers = values.map(toNumber).filter((v): v is number => v !== undefined);
+      const sum = numbers.reduce((a, b) => a + b, 0);
+      if (fn === 'sum') return sum;
+      return numbers.length ? sum / numbers.length : null;
+    }
+  }
+}
+
+export function validateMetrics(metrics: Record<string, AggregateMetric>): void {
+  for (const alias of Object.keys(metrics)) {
+    const { fn, field } = metrics[alias];
+    if (!AGGREGATE_FUNCTIONS.includes(fn)) {
+      throw new Error(`Invalid aggregate function for '${alias}': ${fn}`);
+    }
+    if (fn !== 'count' && !field) throw new Error(`Missing aggregate field for '${alias}'`);
+  }
+}
+
+/**
+ * groupBy 키 값이 같은 row끼리 묶어 집계, 그룹은 처음 등장한 순서대로 반환
+ * 결과 row는 groupBy 키('address.city'면 중첩 객체)와 metric 이름을 필드로 가짐
+ * groupBy가 없으면 전체를 하나의 그룹으로 집계
+ */
+export function aggregateRows(rows: Row[], groupBy: string[], metrics: Record<string, AggregateMetric>): Row[] {
+  validateMetrics(metrics);
+
+  const groups = new Map<string, Row[]>();
+  if (!groupBy.length) {
+    groups.set('', rows);
+  } else {
+    for (const row of rows) {
+      // null과 undefined는 같은 그룹
+      const key = JSON.stringify(groupBy.map((column) => get(column, row) ?? null));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+  }
+
+  return Array.from(groups.values()).map((groupRows) => {
+    const keys = groupBy.reduce((acc, column) => set(column, get(column, groupRows[0]) ?? null, acc), {} as Row);
+    return Object.keys(metrics).reduce(
+      (acc, alias) => ({ ...acc, [alias]: computeMetric(groupRows, metrics[alias]) }),
+      keys,
+    );
+  });
+}
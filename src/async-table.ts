@@ -0,0 +1,245 @@
+import type { ConditionItem, ConditionNode, ConditionPredicate } from './condition';
+import type { Facet, FacetRequest } from './facet';
+import type TableData from './index';
+import type {
+  AggregateOptions,
+  ConditionInput,
+  CursorInput,
+  CursorTableMetaData,
+  TableMetaData,
+  TablePageData,
+  UpdateRowOptions,
+} from './index';
+import { createRandom, RandomSource } from './random';
+
+type Row = Record<string, any>;
+
+export type AsyncMethod =
+  | 'compileConditions'
+  | 'sortedList'
+  | 'filteredList'
+  | 'getRows'
+  | 'selectRows'
+  | 'selectPage'
+  | 'selectRowsByCursor'
+  | 'selectRow'
+  | 'aggregate'
+  | 'facets'
+  | 'getNewId'
+  | 'insertRow'
+  | 'insertRows'
+  | 'updateRow'
+  | 'updateRows'
+  | 'upsertRow'
+  | 'deleteRow'
+  | 'deleteRows';
+
+// 고정 지연(ms) 또는 [min, max] 범위의 무작위 지연
+export type Latency = number | [number, number];
+
+export type FaultOptions = {
+  // 실패시킬 호출 순번 (1부터, 모든 메서드 호출 기준)
+  failOnCalls?: number[];
+  // 호출별 실패 확률 (0 ~ 1, seed로 재현 가능)
+  failureRate?: number;
+  // 항상 실패하는 메서드
+  failMethods?: AsyncMethod[];
+  // 실패 시 reject할 에러 (기본값 `Simulated failure: {method} (call {call})`)
+  createError?: (method: AsyncMethod, call: number) => Error;
+};
+
+export type AsyncTableDataOptions = {
+  // 기본 지연 (기본값 0)
+  latency?: Latency;
+  // 메서드별 지연, latency보다 우선
+  methodLatency?: Partial<Record<AsyncMethod, Latency>>;
+  faults?: FaultOptions;
+  // 무작위 지연 / failureRate에 사용할 seed (기본값 1)
+  seed?: number | string;
+};
+
+function validateLatency(latency: Latency | undefined, name: string): void {
+  if (latency === undefined) return;
+  const [min, max] = Array.isArray(latency) ? latency : [latency, latency];
+  if (!(min >= 0) || !(max >= min)) throw new Error(`Invalid latency for ${name}: ${JSON.stringify(latency)}`);
+}
+
+function validateOptions(options: AsyncTableDataOptions): void {
+  validateLatency(options.latency, 'latency');
+  const methodLatency = options.methodLatency ?? {};
+  (Object.keys(methodLatency) as AsyncMethod[]).forEach((method) => validateLatency(methodLatency[method], method));
+
+  const rate = options.faults?.failureRate;
+  if (rate !== undefined && !(rate >= 0 && rate <= 1)) throw new Error(`Invalid failureRate: ${rate}`);
+}
+
+/**
+ * TableData의 조회 / 변경 메서드를 Promise로 감싼 비동기 테이블
+ * 지연과 실패를 설정해 로딩 / 재시도 / 에러 상태를 재현, 지연은 setTimeout을 사용하므로 Jest fake timer로 제어 가능
+ * 실패한 호출은 테이블을 변경하지 않고, 실패 여부와 지연은 호출 시점에 결정
+ * 인덱스 / 트랜잭션 / 이벤트 등 지연을 재현할 필요가 없는 기능은 감싸지 않으므로 table로 직접 사용
+ */
+export default class AsyncTableData {
+  private readonly _table: TableData;
+  private _options: AsyncTableDataOptions;
+  private _random: RandomSource;
+  private _callCount = 0;
+
+  constructor(table: TableData, options: AsyncTableDataOptions = {}) {
+    validateOptions(options);
+    this._table = table;
+    this._options = options;
+    this._random = createRandom(options.seed);
+  }
+
+  get table(): TableData {
+    return this._table;
+  }
+
+  get dataSource(): Row[] {
+    return this._table.dataSource;
+  }
+
+  // 지금까지의 메서드 호출 수 (실패 포함)
+  get callCount(): number {
+    return this._callCount;
+  }
+
+  /**
+   * 지연 / 실패 설정 변경, 전달한 항목만 교체 (seed를 전달하면 난수 순서도 초기화)
+   */
+  configure(options: AsyncTableDataOptions): void {
+    const next = { ...this._options, ...options };
+    validateOptions(next);
+    this._options = next;
+    if (options.seed !== undefined) this._random = createRandom(options.seed);
+  }
+
+  private getLatency(method: AsyncMethod): number {
+    const latency = this._options.methodLatency?.[method] ?? this._options.latency ?? 0;
+    if (!Array.isArray(latency)) return latency;
+    const [min, max] = latency;
+    return min + Math.round(this._random() * (max - min));
+  }
+
+  private shouldFail(method: AsyncMethod, call: number): boolean {
+    const { failOnCalls = [], failureRate = 0, failMethods = [] } = this._options.faults ?? {};
+    if (failOnCalls.includes(call) || failMethods.includes(method)) return true;
+    return failureRate > 0 && this._random() < failureRate;
+  }
+
+  private run<T>(method: AsyncMethod, operation: () => T): Promise<T> {
+    const call = ++this._callCount;
+    const latency = this.getLatency(method);
+    const fail = this.shouldFail(method, call);
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        if (fail) {
+          const { createError } = this._options.faults ?? {};
+          reject(createError ? createError(method, call) : new Error(`Simulated failure: ${method} (call ${call})`));
+          return;
+        }
+        try {
+          resolve(operation());
+        } catch (e) {
+          reject(e);
+        }
+      };
+
+      if (latency > 0) setTimeout(settle, latency);
+      else Promise.resolve().then(settle);
+    });
+  }
+
+  compileConditions(conditions: ConditionNode | ConditionItem[]): Promise<ConditionPredicate> {
+    return this.run('compileConditions', () => this._table.compileConditions(conditions));
+  }
+
+  sortedList(rows: Row[], sorts: string[]): Promise<Row[]> {
+    return this.run('sortedList', () => this._table.sortedList(rows, sorts));
+  }
+
+  filteredList(conditions: ConditionInput): Promise<Row[]> {
+    return this.run('filteredList', () => this._table.filteredList(conditions));
+  }
+
+  getRows(
+    limit: any,
+    offset: any,
+    conditions?: ConditionInput,
+    sorts?: string[],
+    meta?: boolean,
+  ): Promise<Row[] | TableMetaData> {
+    return this.run('getRows', () => this._table.getRows(limit, offset, conditions, sorts, meta));
+  }
+
+  selectRows(limit?: any, offset?: any, conditions?: ConditionInput, sort?: any, meta?: false): Promise<Row[]>;
+
+  selectRows(limit?: any, offset?: any, conditions?: ConditionInput, sort?: any, meta?: true): Promise<TableMetaData>;
+
+  selectRows(limit?: any, offset?: any, conditions: ConditionInput = [], sort?: any, meta?: boolean) {
+    return this.run('selectRows', () =>
+      meta
+        ? this._table.selectRows(limit, offset, conditions, sort, true)
+        : this._table.selectRows(limit, offset, conditions, sort, false),
+    );
+  }
+
+  selectPage(page?: any, pageSize?: any, conditions: ConditionInput = [], sort?: any): Promise<TablePageData> {
+    return this.run('selectPage', () => this._table.selectPage(page, pageSize, conditions, sort));
+  }
+
+  selectRowsByCursor(
+    limit?: any,
+    cursor?: CursorInput,
+    conditions: ConditionInput = [],
+    sort?: any,
+  ): Promise<CursorTableMetaData> {
+    return this.run('selectRowsByCursor', () => this._table.selectRowsByCursor(limit, cursor, conditions, sort));
+  }
+
+  selectRow(conditions: ConditionInput): Promise<Row | undefined> {
+    return this.run('selectRow', () => this._table.selectRow(conditions));
+  }
+
+  aggregate(options: AggregateOptions = {}): Promise<TableMetaData> {
+    return this.run('aggregate', () => this._table.aggregate(options));
+  }
+
+  facets(requests: FacetRequest[], conditions: ConditionInput = []): Promise<Record<string, Facet>> {
+    return this.run('facets', () => this._table.facets(requests, conditions));
+  }
+
+  getNewId(key?: string): Promise<number> {
+    return this.run('getNewId', () => this._table.getNewId(key));
+  }
+
+  insertRow(item: Row): Promise<Row> {
+    return this.run('insertRow', () => this._table.insertRow(item));
+  }
+
+  insertRows(items: Row[]): Promise<Row[]> {
+    return this.run('insertRows', () => this._table.insertRows(items));
+  }
+
+  updateRow(conditions: ConditionInput, newItem?: Row, options: UpdateRowOptions = {}): Promise<boolean> {
+    return this.run('updateRow', () => this._table.updateRow(conditions, newItem, options));
+  }
+
+  updateRows(conditions: ConditionInput, changes: Row | ((row: Row) => Row)): Promise<Row[]> {
+    return this.run('updateRows', () => this._table.updateRows(conditions, changes));
+  }
+
+  upsertRow(conditions: ConditionInput, item: Row, options: UpdateRowOptions = {}): Promise<Row> {
+    return this.run('upsertRow', () => this._table.upsertRow(conditions, item, options));
+  }
+
+  deleteRow(conditions: ConditionInput): Promise<boolean> {
+    return this.run('deleteRow', () => this._table.deleteRow(conditions));
+  }
+
+  deleteRows(conditions: ConditionInput): Promise<Row[]> {
+    return this.run('deleteRows', () => this._table.deleteRows(conditions));
+  }
+}
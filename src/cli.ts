@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as http from 'http';
+import TableData, { createRestHandler, RestHandler, toNodeListener } from './index';
+
+export type ServeOptions = {
+  file: string;
+  port: number;
+  host: string;
+  basePath?: string;
+  // 리소스별 primaryKey (기본값 'id')
+  primaryKeys: Record<string, string>;
+  // 파일이 바뀌면 다시 로드
+  watch: boolean;
+  // 변경 요청 결과를 파일에 저장
+  persist: boolean;
+  // 응답 지연 (ms)
+  delay: number;
+};
+
+export type MockServer = {
+  server: http.Server;
+  url: string;
+  // 현재 리소스 (reload 시 교체)
+  readonly resources: Record<string, TableData>;
+  // 파일을 다시 읽어 리소스를 교체, 내용이 바뀌지 않았으면 false
+  reload(): boolean;
+  close(): Promise<void>;
+};
+
+export const USAGE = `Usage: mock-table-data serve <file> [options]
+
+Options:
+  --port <number>           포트 (기본값 3000)
+  --host <host>             호스트 (기본값 localhost)
+  --base-path <path>        리소스 경로 앞에 붙는 경로 (e.g. /api)
+  --pk <resource>=<column>  리소스별 primaryKey (기본값 id, 여러 번 지정 가능)
+  --watch                   파일이 바뀌면 다시 로드
+  --persist                 변경 요청 결과를 파일에 저장
+  --delay <ms>              응답 지연
+`;
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Expose-Headers': 'Location',
+};
+
+function toNonNegativeInt(value: string | undefined, option: string): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isInteger(n) || n < 0) throw new Error(`Invalid value for ${option}: ${value}`);
+  return n;
+}
+
+/**
+ * `serve` 이후의 인자 → ServeOptions, 잘못된 인자면 에러
+ */
+export function parseServeArgs(argv: string[]): ServeOptions {
+  const options: ServeOptions = {
+    file: '',
+    port: 3000,
+    host: 'localhost',
+    primaryKeys: {},
+    watch: false,
+    persist: false,
+    delay: 0,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--port':
+        options.port = toNonNegativeInt(argv[++i], arg);
+        break;
+      case '--host':
+        options.host = argv[++i] ?? '';
+        if (!options.host) throw new Error(`Invalid value for ${arg}`);
+        break;
+      case '--base-path':
+        options.basePath = argv[++i];
+        break;
+      case '--pk': {
+        const [resource, column] = (argv[++i] ?? '').split('=');
+        if (!resource || !column) throw new Error(`Invalid value for ${arg}: expected <resource>=<column>`);
+        options.primaryKeys[resource] = column;
+        break;
+      }
+      case '--watch':
+        options.watch = true;
+        break;
+      case '--persist':
+        options.persist = true;
+        break;
+      case '--delay':
+        options.delay = toNonNegativeInt(argv[++i], arg);
+        break;
+      default:
+        if (arg.startsWith('-')) throw new Error(`Unknown option: ${arg}`);
+        if (options.file) throw new Error(`Unexpected argument: ${arg}`);
+        options.file = arg;
+    }
+  }
+
+  if (!options.file) throw new Error('Missing file');
+  return options;
+}
+
+type Fixture = {
+  resources: Record<string, TableData>;
+  // 배열이 아닌 최상위 값 (저장 시 그대로 유지)
+  extra: Record<string, any>;
+};
+
+// 최상위 배열 하나가 리소스 하나
+function loadFixture(text: string, primaryKeys: Record<string, string>): Fixture {
+  const json = JSON.parse(text);
+  if (!json || typeof json !== 'object' || Array.isArray(json)) throw new Error('Fixture must be a JSON object');
+
+  const fixture: Fixture = { resources: {}, extra: {} };
+  for (const name of Object.keys(json)) {
+    if (Array.isArray(json[name])) {
+      fixture.resources[name] = new TableData(json[name], { primaryKey: primaryKeys[name] ?? 'id' });
+    } else {
+      fixture.extra[name] = json[name];
+    }
+  }
+  return fixture;
+}
+
+function serializeFixture({ resources, extra }: Fixture): string {
+  const json = Object.keys(resources).reduce<Record<string, any>>(
+    (acc, name) => ({ ...acc, [name]: resources[name].dataSource }),
+    { ...extra },
+  );
+  return `${JSON.stringify(json, null, 2)}\n`;
+}
+
+/**
+ * JSON 파일의 리소스를 REST API로 제공하는 서버 시작
+ */
+export async function serve(options: ServeOptions): Promise<MockServer> {
+  const { file, basePath, primaryKeys, persist, delay } = options;
+
+  let text = fs.readFileSync(file, 'utf8');
+  let fixture = loadFixture(text, primaryKeys);
+  let handler: RestHandler = createRestHandler(fixture.resources, { basePath });
+
+  const reload = () => {
+    const nextText = fs.readFileSync(file, 'utf8');
+    // persist로 직접 저장한 내용이면 무시
+    if (nextText === text) return false;
+    fixture = loadFixture(nextText, primaryKeys);
+    handler = createRestHandler(fixture.resources, { basePath });
+    text = nextText;
+    return true;
+  };
+
+  const listener = toNodeListener((request) => {
+    const response = handler(request);
+    if (persist && request.method.toUpperCase() !== 'GET' && response.status < 400) {
+      text = serializeFixture(fixture);
+      fs.writeFileSync(file, text);
+    }
+    return { ...response, headers: { ...CORS_HEADERS, ...response.headers } };
+  });
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    if (delay > 0) setTimeout(() => listener(req, res), delay);
+    else listener(req, res);
+  });
+
+  if (options.watch) {
+    fs.watchFile(file, { interval: 500 }, () => {
+      try {
+        if (reload()) process.stdout.write(`Reloaded ${file}\n`);
+      } catch (e) {
+        process.stderr.write(`Failed to reload ${file}: ${(e as Error).message}\n`);
+      }
+    });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, resolve);
+  });
+
+  const { port } = server.address() as { port: number };
+  return {
+    server,
+    url: `http://${options.host}:${port}`,
+    get resources() {
+      return fixture.resources;
+    },
+    reload,
+    close: () =>
+      new Promise<void>((resolve) => {
+        if (options.watch) fs.unwatchFile(file);
+        server.close(() => resolve());
+      }),
+  };
+}
+
+export function main(argv: string[]): void {
+  const [command, ...args] = argv;
+  if (command !== 'serve') {
+    process.stderr.write(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  let options: ServeOptions;
+  try {
+    options = parseServeArgs(args);
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  serve(options).then(
+    ({ url, resources }) => {
+      const prefix = options.basePath ? `/${options.basePath.replace(/^\/+|\/+$/g, '')}` : '';
+      process.stdout.write(`Serving ${options.file} on ${url}\n`);
+      Object.keys(resources).forEach((name) => process.stdout.write(`  ${url}${prefix}/${name}\n`));
+    },
+    (e) => {
+      process.stderr.write(`${(e as Error).message}\n`);
+      process.exitCode = 1;
+    },
+  );
+}
+
+if (require.main === module) main(process.argv.slice(2));
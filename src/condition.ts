@@ -0,0 +1,466 @@
+import { eq, get } from 'lodash/fp';
+import { isDateValue, isRelativeDateRange, resolveRelativeDateRange, toTimestamp } from './date';
+import { matchChosung, NormalizationForm, NORMALIZATION_FORMS, normalizeText } from './text';
+
+export type LogicOperator = 'AND' | 'OR' | 'NOT';
+
+export type ConditionOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn' | 'between';
+
+export type StringMatchMode = 'exact' | 'contains' | 'startsWith' | 'endsWith' | 'regex' | 'chosung';
+
+export const CONDITION_RESERVED_KEYS = [
+  'type',
+  'required',
+  'like',
+  'operator',
+  'negate',
+  'match',
+  'caseSensitive',
+  'flags',
+  'normalize',
+  'ignoreAccents',
+] as const;
+
+export const STRING_MATCH_MODES: readonly StringMatchMode[] = [
+  'exact',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'regex',
+  'chosung',
+];
+
+export const CONDITION_OPERATORS: readonly ConditionOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'between',
+];
+
+export type ConditionItem = {
+  [key: string]: any;
+  type?: 'string' | 'number' | 'boolean' | 'date';
+  required?: boolean;
+  like?: boolean;
+  operator?: ConditionOperator;
+  negate?: boolean;
+  match?: StringMatchMode;
+  caseSensitive?: boolean;
+  flags?: string;
+  normalize?: NormalizationForm;
+  ignoreAccents?: boolean;
+};
+
+// 조건에 지정하지 않은 경우 적용되는 테이블 단위 문자열 비교 기본값
+export type StringMatchDefaults = {
+  // like: true 조건에 사용할 match 모드 (기본값 contains)
+  likeMatch?: StringMatchMode;
+  normalize?: NormalizationForm;
+  ignoreAccents?: boolean;
+};
+
+export type ConditionGroup = {
+  logic?: LogicOperator;
+  conditions: ConditionNode[];
+};
+
+export type ConditionNode = ConditionGroup | ConditionItem;
+
+// 컴파일된 조건: 행 하나를 받아 매칭 여부 반환
+export type ConditionPredicate = (row: Record<string, any>) => boolean;
+
+export type CompileOptions = {
+  // 상대 날짜 구간의 기준 시각, 컴파일 시점에 한 번 고정됨
+  now?: number;
+  stringMatch?: StringMatchDefaults;
+  // type이 없는 조건에 적용할 컬럼별 타입 (테이블 schema에서 추론)
+  columnTypes?: Record<string, ConditionItem['type']>;
+};
+
+type ValueMatcher = (rowValue: any) => boolean;
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return 'conditions' in node && Array.isArray((node as any).conditions);
+}
+
+export function toConditionTree(conditions: ConditionNode | ConditionItem[]): ConditionNode {
+  return Array.isArray(conditions) ? { logic: 'AND', conditions: conditions as ConditionItem[] } : conditions;
+}
+
+export function getConditionKey(item: ConditionItem): string | undefined {
+  return Object.keys(item).find((k) => !(CONDITION_RESERVED_KEYS as readonly string[]).includes(k));
+}
+
+/**
+ * 조건이 key 하나에 대한 단순 숫자 동등 비교(e.g. `[{ id: 5 }]`)면 비교 값을 반환
+ * 단일 하위 조건만 가진 AND/OR 그룹은 풀어서 확인, 그 외에는 undefined
+ */
+export function getKeyEquality(
+  conditions: ConditionNode | ConditionItem[],
+  key: string,
+): string | number | boolean | undefined {
+  let node: ConditionNode = toConditionTree(conditions);
+  while (isConditionGroup(node)) {
+    if (node.logic === 'NOT' || node.conditions.length !== 1) return undefined;
+    node = node.conditions[0];
+  }
+
+  const keys = Object.keys(node);
+  if (keys.length !== 1 || keys[0] !== key) return undefined;
+
+  const value = node[key];
+  return ['string', 'number', 'boolean'].includes(typeof value) ? value : undefined;
+}
+
+/**
+ * 인덱스로 후보 row를 좁힐 수 있는 조건이면 [key, 비교 값 목록]을 반환
+ * 대소문자 무시 정확 일치(eq) 또는 in 조건이면서 값이 문자열, 숫자, null인 경우만 해당
+ */
+export function getIndexableValues(
+  condition: ConditionItem,
+  options: CompileOptions = {},
+): [string, any[]] | undefined {
+  const key = getConditionKey(condition);
+  if (!key) return undefined;
+
+  const item = applyColumnType(condition, options.columnTypes);
+
+  const operator = item.operator ?? 'eq';
+  if ((operator !== 'eq' && operator !== 'in') || item.negate === true || item.type === 'date') return undefined;
+
+  const resolved = applyStringMatchDefaults(item, options.stringMatch);
+  if (getMatchMode(resolved) !== 'exact' || resolved.caseSensitive || resolved.normalize || resolved.ignoreAccents) {
+    return undefined;
+  }
+
+  const value = item[key];
+  const values = operator === 'in' ? value : [value];
+  if (!Array.isArray(values)) return undefined;
+  if (!values.every((v) => v === null || typeof v === 'string' || typeof v === 'number')) return undefined;
+  return [key, values];
+}
+
+function isSkippableValue(value: any): boolean {
+  return value === undefined;
+}
+
+function isRequiredEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isNumericString(value: any): boolean {
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value));
+}
+
+function isArrayOperator(operator?: ConditionOperator): boolean {
+  return operator === 'in' || operator === 'notIn' || operator === 'between';
+}
+
+function coerceValue(value: any, type?: ConditionItem['type']): any {
+  if (value === null || value === undefined || !type) return value;
+  if (type === 'number') return typeof value === 'number' ? value : Number(value);
+  if (type === 'boolean') return typeof value === 'boolean' ? value : value === 'true';
+  if (type === 'date') return toTimestamp(value);
+  return value.toString();
+}
+
+// 대소비교: 비교 불가능한 경우(null/undefined, 타입 불일치, NaN) undefined 반환
+function compareValues(rowValue: any, target: any): number | undefined {
+  if (rowValue === null || rowValue === undefined || target === null || target === undefined) return undefined;
+
+  let a = rowValue;
+  let b = target;
+  if (typeof a === 'number' && isNumericString(b)) b = Number(b);
+  else if (typeof b === 'number' && isNumericString(a)) a = Number(a);
+
+  if (typeof a !== typeof b) return undefined;
+  if (typeof a === 'number' && (isNaN(a) || isNaN(b))) return undefined;
+  if (a === b) return 0;
+  return a > b ? 1 : -1;
+}
+
+function getMatchMode(item: ConditionItem): StringMatchMode {
+  return item.match ?? (item.like === true ? 'contains' : 'exact');
+}
+
+// regex 모드: caseSensitive가 아니면 i 플래그 추가, 상태를 가지는 g/y 플래그는 제거
+function buildRegExp(pattern: string | RegExp, item: ConditionItem): RegExp {
+  const source = pattern instanceof RegExp ? pattern.source : pattern;
+  let flags = (item.flags ?? (pattern instanceof RegExp ? pattern.flags : '')).replace(/[gy]/g, '');
+  if (item.caseSensitive !== true && !flags.includes('i')) flags += 'i';
+  return new RegExp(source, flags);
+}
+
+// 조건에 지정되지 않은 문자열 비교 옵션을 테이블 기본값으로 채움
+function applyStringMatchDefaults(item: ConditionItem, defaults: StringMatchDefaults = {}): ConditionItem {
+  const { likeMatch, normalize, ignoreAccents } = defaults;
+  if (!likeMatch && !normalize && !ignoreAccents) return item;
+
+  return {
+    ...item,
+    match: item.match ?? (item.like === true ? likeMatch : undefined),
+    normalize: item.normalize ?? normalize,
+    ignoreAccents: item.ignoreAccents ?? ignoreAccents,
+  };
+}
+
+/**
+ * 조건에 type이 없으면 컬럼 타입으로 채움
+ * like / match 조건은 문자열 검색이므로 추론하지 않음
+ */
+export function applyColumnType(
+  item: ConditionItem,
+  columnTypes?: Record<string, ConditionItem['type']>,
+): ConditionItem {
+  if (!columnTypes || item.type || item.like === true || item.match) return item;
+
+  const key = getConditionKey(item);
+  const type = key ? columnTypes[key] : undefined;
+  return type ? { ...item, type } : item;
+}
+
+export function validateConditionItem(item: ConditionItem): void {
+  const key = getConditionKey(item);
+  if (!key) throw new Error('Invalid condition item: no key provided');
+
+  const value = item[key];
+  const { required, type, operator, match, normalize } = item;
+
+  if (operator !== undefined && !CONDITION_OPERATORS.includes(operator)) {
+    throw new Error(`Invalid condition operator for key '${key}': ${operator}`);
+  }
+
+  if (match !== undefined && !STRING_MATCH_MODES.includes(match)) {
+    throw new Error(`Invalid condition match mode for key '${key}': ${match}`);
+  }
+
+  if (normalize !== undefined && !NORMALIZATION_FORMS.includes(normalize)) {
+    throw new Error(`Invalid condition normalize form for key '${key}': ${normalize}`);
+  }
+
+  if (required && isRequiredEmpty(value)) {
+    throw new Error(`Missing required field: ${key}`);
+  }
+
+  if (isSkippableValue(value)) return;
+
+  if (isArrayOperator(operator)) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Invalid condition value for key '${key}': operator '${operator}' expects an array`);
+    }
+    if (operator === 'between' && value.length !== 2) {
+      throw new Error(`Invalid condition value for key '${key}': operator 'between' expects [from, to]`);
+    }
+  }
+
+  if (type) {
+    const typeCheck = {
+      string: (v: any) => typeof v === 'string',
+      number: (v: any) => typeof v === 'number' || isNumericString(v),
+      boolean: (v: any) => typeof v === 'boolean' || v === 'true' || v === 'false',
+      date: (v: any) => isDateValue(v) || (operator !== 'between' && isRelativeDateRange(v)),
+    }[type];
+
+    // null(null 매칭)과 between의 열린 경계(undefined)는 타입 검사 대상에서 제외
+    const targets: any[] = (isArrayOperator(operator) ? value : [value]).filter(
+      (v: any) => v !== null && (operator !== 'between' || v !== undefined),
+    );
+
+    const invalidIndex = typeCheck ? targets.findIndex((v) => !typeCheck(v)) : -1;
+    if (invalidIndex !== -1) {
+      throw new Error(`Type mismatch for key '${key}': expected ${type}, got ${typeof targets[invalidIndex]}`);
+    }
+  }
+
+  if (match === 'regex') {
+    const patterns: any[] = operator === 'in' || operator === 'notIn' ? value : [value];
+    for (const pattern of patterns) {
+      if (pattern === null) continue;
+      if (typeof pattern !== 'string' && !(pattern instanceof RegExp)) {
+        throw new Error(`Invalid regular expression for key '${key}': expected string pattern, got ${typeof pattern}`);
+      }
+      try {
+        buildRegExp(pattern, item);
+      } catch (e) {
+        throw new Error(`Invalid regular expression for key '${key}': ${(e as Error).message}`);
+      }
+    }
+  }
+}
+
+// 문자열 비교: 검색어의 정규화 / 대소문자 변환 / 정규식 생성은 컴파일 시 한 번만 수행
+function compileStringMatcher(value: string | RegExp, item: ConditionItem): (text: string) => boolean {
+  const mode = getMatchMode(item);
+  const normalize = (text: string) => normalizeText(text, item.normalize, item.ignoreAccents);
+
+  if (mode === 'regex' || value instanceof RegExp) {
+    const regExp = buildRegExp(value, item);
+    return (text) => regExp.test(normalize(text));
+  }
+
+  const fold = item.caseSensitive === true ? normalize : (text: string) => normalize(text).toUpperCase();
+  const target = fold(value);
+
+  if (mode === 'chosung') return (text) => matchChosung(target, fold(text));
+  if (mode === 'contains') return (text) => fold(text).includes(target);
+  if (mode === 'startsWith') return (text) => fold(text).startsWith(target);
+  if (mode === 'endsWith') return (text) => fold(text).endsWith(target);
+  return (text) => fold(text) === target;
+}
+
+// 동등 비교: 문자열은 match 모드에 따라 비교 (기본값은 대소문자 무시 정확 일치, like면 부분일치)
+function compileEquals(value: any, item: ConditionItem): ValueMatcher {
+  // null 매칭: value가 null이면 rowValue도 null 또는 undefined인 행만 매칭
+  if (value === null) {
+    return (rowValue) => rowValue === null || rowValue === undefined;
+  }
+
+  if (typeof value === 'boolean') {
+    return (rowValue) => {
+      if (typeof rowValue === 'boolean') return value === rowValue;
+      if (typeof rowValue === 'string') return value === (rowValue === 'true');
+      return false;
+    };
+  }
+
+  if (typeof value === 'string' || value instanceof RegExp) {
+    const matchString = compileStringMatcher(value, item);
+    return (rowValue) => rowValue !== null && rowValue !== undefined && matchString(rowValue.toString());
+  }
+
+  return (rowValue) => eq(value, rowValue);
+}
+
+// 날짜 비교: 양쪽을 timestamp로 변환해서 비교, 상대 날짜 구간은 [start, end)로 해석
+function compileDateMatcher(operator: ConditionOperator, value: any, now: number): ValueMatcher {
+  if (operator === 'ne') {
+    const matcher = compileDateMatcher('eq', value, now);
+    return (rowValue) => !matcher(rowValue);
+  }
+  if (operator === 'in' || operator === 'notIn') {
+    const matchers = (value as any[]).map((v) => compileDateMatcher('eq', v, now));
+    const matchAny = (rowValue: any) => matchers.some((matcher) => matcher(rowValue));
+    return operator === 'in' ? matchAny : (rowValue) => !matchAny(rowValue);
+  }
+  if (operator === 'eq' && value === null) return compileEquals(value, {});
+
+  if (operator === 'between') {
+    const [from, to] = (value as any[]).map(toTimestamp);
+    return (rowValue) => {
+      const time = toTimestamp(rowValue);
+      return time !== undefined && (from === undefined || time >= from) && (to === undefined || time <= to);
+    };
+  }
+
+  let start: number;
+  let end: number;
+  if (isRelativeDateRange(value)) {
+    [start, end] = resolveRelativeDateRange(value, now);
+  } else {
+    start = toTimestamp(value)!;
+    end = start + 1;
+  }
+
+  const test: (time: number) => boolean =
+    {
+      gt: (time: number) => time >= end,
+      gte: (time: number) => time >= start,
+      lt: (time: number) => time < start,
+      lte: (time: number) => time < end,
+    }[operator as 'gt' | 'gte' | 'lt' | 'lte'] ?? ((time: number) => time >= start && time < end);
+
+  return (rowValue) => {
+    const time = toTimestamp(rowValue);
+    return time !== undefined && test(time);
+  };
+}
+
+function compileOperator(operator: ConditionOperator, value: any, item: ConditionItem, now: number): ValueMatcher {
+  if (item.type === 'date') return compileDateMatcher(operator, value, now);
+
+  switch (operator) {
+    case 'eq':
+      return compileEquals(value, item);
+    case 'ne': {
+      const matcher = compileEquals(value, item);
+      return (rowValue) => !matcher(rowValue);
+    }
+    case 'in':
+    case 'notIn': {
+      const matchers = (value as any[]).map((v) => compileEquals(v, item));
+      const matchAny = (rowValue: any) => matchers.some((matcher) => matcher(rowValue));
+      return operator === 'in' ? matchAny : (rowValue) => !matchAny(rowValue);
+    }
+    case 'between': {
+      // 한쪽 경계가 null/undefined면 열린 구간으로 처리
+      const [from, to] = (value as any[]).map((v) => coerceValue(v, item.type));
+      const hasFrom = from !== null && from !== undefined;
+      const hasTo = to !== null && to !== undefined;
+      return (rowValue) => {
+        const target = coerceValue(rowValue, item.type);
+        if (target === null || target === undefined) return false;
+        if (hasFrom) {
+          const c = compareValues(target, from);
+          if (c === undefined || c < 0) return false;
+        }
+        if (hasTo) {
+          const c = compareValues(target, to);
+          if (c === undefined || c > 0) return false;
+        }
+        return true;
+      };
+    }
+    default: {
+      const target = coerceValue(value, item.type);
+      return (rowValue) => {
+        const c = compareValues(coerceValue(rowValue, item.type), target);
+        if (c === undefined) return false;
+        if (operator === 'gt') return c > 0;
+        if (operator === 'gte') return c >= 0;
+        if (operator === 'lt') return c < 0;
+        return c <= 0;
+      };
+    }
+  }
+}
+
+// 그룹의 하위 predicate를 logic에 따라 결합
+export function combinePredicates(children: ConditionPredicate[], logic: LogicOperator = 'AND'): ConditionPredicate {
+  if (logic === 'OR') return (row) => children.some((child) => child(row));
+  // NOT: 하위 조건 전체(AND)를 부정, 하위 조건이 없으면 전체 매칭
+  if (logic === 'NOT') return (row) => children.length === 0 || !children.every((child) => child(row));
+  return (row) => children.every((child) => child(row));
+}
+
+/**
+ * 조건 트리를 검증하고 행 단위로 재사용 가능한 predicate로 변환
+ * 검증 에러는 행을 조회하기 전에 컴파일 시점에 발생
+ */
+export function compileCondition(node: ConditionNode, options: CompileOptions = {}): ConditionPredicate {
+  const now = options.now ?? Date.now();
+
+  if (isConditionGroup(node)) {
+    const children = node.conditions.map((child) => compileCondition(child, { ...options, now }));
+    return combinePredicates(children, node.logic);
+  }
+
+  const typed = applyColumnType(node, options.columnTypes);
+  validateConditionItem(typed);
+
+  const key = getConditionKey(typed)!;
+  const value = typed[key];
+  if (isSkippableValue(value)) return () => true;
+
+  const item = applyStringMatchDefaults(typed, options.stringMatch);
+  const matcher = compileOperator(typed.operator ?? 'eq', value, item, now);
+  // 중첩 경로(a.b, a[0])가 아니면 lodash get 대신 직접 접근
+  const getValue = /[.[]/.test(key) ? get(key) : (row: Record<string, any>) => row[key];
+
+  if (typed.negate === true) return (row) => !matcher(getValue(row));
+  return (row) => matcher(getValue(row));
+}
@@ -0,0 +1,60 @@
+// 정렬 키 값 → 불투명한 cursor 문자열 (base64url JSON)
+// 정렬 조건이 바뀐 cursor는 사용할 수 없도록 정렬 signature를 함께 저장
+
+type CursorPayload = {
+  // 'key:order' 목록
+  s: string[];
+  v: any[];
+  // undefined 값의 위치 (JSON으로 표현할 수 없어 따로 저장)
+  u?: number[];
+};
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeCursor(values: any[], signature: string[]): string {
+  const payload: CursorPayload = { s: signature, v: values.map((value) => (value === undefined ? null : value)) };
+  const undefinedIndexes = values.flatMap((value, i) => (value === undefined ? [i] : []));
+  if (undefinedIndexes.length) payload.u = undefinedIndexes;
+  return toBase64Url(JSON.stringify(payload));
+}
+
+// u는 생략하거나 [0, length) 범위의 정수 배열
+function isIndexList(indexes: unknown, length: number): boolean {
+  if (indexes === undefined) return true;
+  return Array.isArray(indexes) && indexes.every((i) => Number.isInteger(i) && i >= 0 && i < length);
+}
+
+/**
+ * cursor를 정렬 키 값 목록으로 변환, 형식이 잘못되었거나 정렬 조건이 다르면 에러
+ */
+export function decodeCursor(cursor: string, signature: string[]): any[] {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(fromBase64Url(cursor));
+  } catch (e) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  if (
+    !payload ||
+    !Array.isArray(payload.v) ||
+    !Array.isArray(payload.s) ||
+    payload.s.join(',') !== signature.join(',') ||
+    payload.v.length !== signature.length ||
+    !isIndexList(payload.u, signature.length)
+  ) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  const values = [...payload.v];
+  (payload.u ?? []).forEach((i) => (values[i] = undefined));
+  return values;
+}
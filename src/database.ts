@@ -0,0 +1,374 @@
+import {
+  combinePredicates,
+  ConditionNode,
+  ConditionPredicate,
+  getConditionKey,
+  isConditionGroup,
+  toConditionTree,
+} from './condition';
+import TableData, { ConditionInput, TableDataOptions, TableMetaData } from './index';
+
+type Row = Record<string, any>;
+
+export type ReferentialAction = 'restrict' | 'cascade' | 'setNull';
+
+/**
+ * 외래 키 하나로 양방향 관계를 정의
+ * e.g. orders.userId → users.id: orders에서는 'user'(many-to-one), users에서는 'orders'(one-to-many)
+ */
+export type RelationDefinition = {
+  // 외래 키를 가진 테이블
+  from: string;
+  foreignKey: string;
+  // 참조되는 테이블
+  to: string;
+  // 참조되는 컬럼 (기본값: to 테이블의 primaryKey)
+  references?: string;
+  // from 테이블에서 참조 row를 가리키는 이름 (many-to-one)
+  as: string;
+  // to 테이블에서 참조하는 row 목록을 가리키는 이름 (one-to-many)
+  inverseAs?: string;
+  // 참조되는 row 삭제 시 동작 (기본값 restrict)
+  onDelete?: ReferentialAction;
+};
+
+export type SelectOptions = {
+  // 관계 이름 목록, 'user.company'처럼 중첩 가능
+  include?: string[];
+};
+
+// 테이블 기준으로 해석한 관계
+type ResolvedRelation = {
+  name: string;
+  many: boolean;
+  target: string;
+  localKey: string;
+  targetKey: string;
+};
+
+// restrict 관계로 삭제할 row(table)를 참조하는 row, 계획이 끝난 뒤 모두 삭제 대상인지 검사
+type Restriction = {
+  table: string;
+  relation: RelationDefinition;
+  rows: Row[];
+};
+
+/**
+ * 여러 TableData를 이름으로 등록하고 테이블 간 관계를 관리
+ */
+export default class MockDatabase {
+  private readonly _tables = new Map<string, TableData>();
+  private readonly _relations: RelationDefinition[] = [];
+
+  addTable(name: string, table: TableData): TableData {
+    if (this._tables.has(name)) throw new Error(`Duplicate table: ${name}`);
+    this._tables.set(name, table);
+    return table;
+  }
+
+  createTable(name: string, dataSource: Row[], options?: TableDataOptions): TableData {
+    return this.addTable(name, new TableData(dataSource, options));
+  }
+
+  table(name: string): TableData {
+    const table = this._tables.get(name);
+    if (!table) throw new Error(`Unknown table: ${name}`);
+    return table;
+  }
+
+  get tableNames(): string[] {
+    return Array.from(this._tables.keys());
+  }
+
+  get relations(): RelationDefinition[] {
+    return [...this._relations];
+  }
+
+  defineRelation(relation: RelationDefinition): void {
+    const target = this.table(relation.to);
+    this.table(relation.from);
+
+    const references = relation.references ?? target.primaryKey;
+    if (!references) throw new Error(`Missing referenced column for relation '${relation.as}'`);
+
+    for (const [table, name] of [
+      [relation.from, relation.as],
+      [relation.to, relation.inverseAs],
+    ]) {
+      if (name !== undefined && this.findRelation(table!, name)) {
+        throw new Error(`Duplicate relation '${name}' on table '${table}'`);
+      }
+    }
+    this._relations.push({ ...relation, references, onDelete: relation.onDelete ?? 'restrict' });
+  }
+
+  private findRelation(tableName: string, name: string): ResolvedRelation | undefined {
+    for (const relation of this._relations) {
+      if (relation.from === tableName && relation.as === name) {
+        return {
+          name,
+          many: false,
+          target: relation.to,
+          localKey: relation.foreignKey,
+          targetKey: relation.references!,
+        };
+      }
+      if (relation.to === tableName && relation.inverseAs === name) {
+        return {
+          name,
+          many: true,
+          target: relation.from,
+          localKey: relation.references!,
+          targetKey: relation.foreignKey,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  private getRelation(tableName: string, name: string): ResolvedRelation {
+    const relation = this.findRelation(tableName, name);
+    if (!relation) throw new Error(`Unknown relation '${name}' on table '${tableName}'`);
+    return relation;
+  }
+
+  // 관계 대상 테이블의 row를 참조 컬럼 값으로 묶고, row → 관계 row 목록 조회 함수 반환 (null 키는 관계 없음)
+  private getRelatedRowsLookup(relation: ResolvedRelation): (row: Row) => Row[] {
+    const groups = new Map<any, Row[]>();
+    for (const row of this.table(relation.target).dataSource) {
+      const key = row[relation.targetKey];
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+
+    return (row) => {
+      const key = row[relation.localKey];
+      return key === null || key === undefined ? [] : groups.get(key) ?? [];
+    };
+  }
+
+  // 'user.role'처럼 관계 이름으로 시작하는 조건 키면 [관계, 나머지 경로] 반환
+  private splitRelationKey(tableName: string, key: string): [ResolvedRelation, string] | undefined {
+    const dot = key.indexOf('.');
+    if (dot === -1) return undefined;
+    const relation = this.findRelation(tableName, key.slice(0, dot));
+    return relation && [relation, key.slice(dot + 1)];
+  }
+
+  private hasRelationCondition(tableName: string, node: ConditionNode): boolean {
+    if (isConditionGroup(node)) return node.conditions.some((child) => this.hasRelationCondition(tableName, child));
+    const key = getConditionKey(node);
+    return !!key && !!this.splitRelationKey(tableName, key);
+  }
+
+  /**
+   * 관계 필드 조건(e.g. `{ 'user.role': 'admin' }`)을 포함한 조건 트리를 predicate로 변환
+   * many-to-one은 참조 row가 조건을 만족하면, one-to-many는 참조하는 row 중 하나라도 만족하면 매칭
+   * 관계 조건이 없으면 그대로 반환해서 테이블의 인덱스를 사용할 수 있도록 함
+   */
+  resolveConditions(tableName: string, conditions: ConditionInput): ConditionInput {
+    if (typeof conditions === 'function') return conditions;
+    const tree = toConditionTree(conditions);
+    return this.hasRelationCondition(tableName, tree) ? this.compileWhere(tableName, tree) : conditions;
+  }
+
+  private compileWhere(tableName: string, node: ConditionNode): ConditionPredicate {
+    if (isConditionGroup(node)) {
+      return combinePredicates(
+        node.conditions.map((child) => this.compileWhere(tableName, child)),
+        node.logic,
+      );
+    }
+
+    const key = getConditionKey(node);
+    const split = key ? this.splitRelationKey(tableName, key) : undefined;
+    if (!split) return this.table(tableName).compileConditions([node]);
+
+    const [relation, path] = split;
+    const { [key!]: value, ...options } = node;
+    const matches = this.compileWhere(relation.target, { ...options, [path]: value });
+    const relatedRowsOf = this.getRelatedRowsLookup(relation);
+
+    if (relation.many) return (row) => relatedRowsOf(row).some(matches);
+    // 참조 row가 없으면 빈 row로 비교 (null 조건 매칭)
+    return (row) => matches(relatedRowsOf(row)[0] ?? {});
+  }
+
+  /**
+   * include에 지정한 관계를 row에 중첩한 복사본 반환
+   * many-to-one은 참조 row(없으면 null), one-to-many는 참조하는 row 목록
+   */
+  private expandRows(tableName: string, rows: Row[], include: string[]): Row[] {
+    const nestedIncludes = new Map<string, string[]>();
+    for (const path of include) {
+      const [name, ...rest] = path.split('.');
+      const nested = nestedIncludes.get(name) ?? [];
+      if (rest.length) nested.push(rest.join('.'));
+      nestedIncludes.set(name, nested);
+    }
+
+    const result = rows.map((row) => ({ ...row }));
+    nestedIncludes.forEach((nested, name) => {
+      const relation = this.getRelation(tableName, name);
+      const relatedRowsOf = this.getRelatedRowsLookup(relation);
+
+      const relatedRows = Array.from(new Set(([] as Row[]).concat(...result.map(relatedRowsOf))));
+      const expandedRows = this.expandRows(relation.target, relatedRows, nested);
+      const expanded = new Map(relatedRows.map((row, i) => [row, expandedRows[i]]));
+
+      for (const row of result) {
+        const related = relatedRowsOf(row).map((relatedRow) => expanded.get(relatedRow)!);
+        row[name] = relation.many ? related : related[0] ?? null;
+      }
+    });
+    return result;
+  }
+
+  selectRows(
+    tableName: string,
+    limit?: any,
+    offset?: any,
+    conditions?: ConditionInput,
+    sort?: any,
+    meta?: false,
+    options?: SelectOptions,
+  ): Row[];
+
+  selectRows(
+    tableName: string,
+    limit?: any,
+    offset?: any,
+    conditions?: ConditionInput,
+    sort?: any,
+    meta?: true,
+    options?: SelectOptions,
+  ): TableMetaData;
+
+  selectRows(
+    tableName: string,
+    limit?: any,
+    offset?: any,
+    conditions: ConditionInput = [],
+    sort?: any,
+    meta?: boolean,
+    options: SelectOptions = {},
+  ) {
+    const where = this.resolveConditions(tableName, conditions);
+    const include = options.include ?? [];
+
+    if (meta) {
+      const { result, meta: metaData } = this.table(tableName).selectRows(limit, offset, where, sort, true);
+      return { result: this.expandRows(tableName, result, include), meta: metaData };
+    }
+    return this.expandRows(tableName, this.table(tableName).selectRows(limit, offset, where, sort, false), include);
+  }
+
+  selectRow(tableName: string, conditions: ConditionInput, options: SelectOptions = {}): Row | undefined {
+    const row = this.table(tableName).selectRow(this.resolveConditions(tableName, conditions));
+    return row && this.expandRows(tableName, [row], options.include ?? [])[0];
+  }
+
+  /**
+   * 조건을 만족하는 첫 row를 삭제하고 참조하는 row에 onDelete 동작 적용
+   */
+  deleteRow(tableName: string, conditions: ConditionInput): boolean {
+    const row = this.table(tableName).selectRow(this.resolveConditions(tableName, conditions));
+    if (!row) throw new Error('not found condition');
+    this.deleteWithReferences(tableName, [row]);
+    return true;
+  }
+
+  /**
+   * 조건을 만족하는 모든 row를 삭제하고 삭제된 row 목록 반환
+   * restrict 위반을 모두 검사한 뒤 삭제하므로, 위반이 있으면 어떤 테이블도 변경되지 않음
+   * setNull 대상 row가 스키마 검증에 실패해도 모든 테이블을 되돌림
+   */
+  deleteRows(tableName: string, conditions: ConditionInput): Row[] {
+    const rows = this.table(tableName).filteredList(this.resolveConditions(tableName, conditions));
+    return this.deleteWithReferences(tableName, rows);
+  }
+
+  private deleteWithReferences(tableName: string, rows: Row[]): Row[] {
+    const deletions = new Map<string, Set<Row>>();
+    const nullifications = new Map<string, Map<Row, string[]>>();
+    const restrictions: Restriction[] = [];
+    this.planDelete(tableName, rows, deletions, nullifications, restrictions);
+
+    // cascade로 함께 삭제되는 row가 모두 정해진 뒤 검사 (관계 정의 순서와 무관)
+    for (const { table, relation, rows: referencing } of restrictions) {
+      if (referencing.some((row) => !deletions.get(relation.from)?.has(row))) {
+        throw new Error(`Cannot delete from '${table}': referenced by '${relation.from}.${relation.foreignKey}'`);
+      }
+    }
+
+    // null 처리가 스키마 검증 등으로 실패하면 이미 변경한 테이블도 되돌림
+    const tables = Array.from(new Set([...deletions.keys(), ...nullifications.keys()].map((name) => this.table(name))));
+    tables.forEach((table) => table.begin());
+    let deleted: Row[];
+    try {
+      nullifications.forEach((targets, table) => {
+        // 삭제될 row는 null 처리하지 않음, null로 바꿀 외래 키 조합별로 한 번씩 수정
+        const deleting = deletions.get(table);
+        const groups = new Map<string, { changes: Row; targetRows: Set<Row> }>();
+        targets.forEach((foreignKeys, row) => {
+          if (deleting?.has(row)) return;
+          const key = foreignKeys.join(',');
+          const group = groups.get(key) ?? {
+            changes: foreignKeys.reduce<Row>((acc, foreignKey) => ({ ...acc, [foreignKey]: null }), {}),
+            targetRows: new Set<Row>(),
+          };
+          groups.set(key, group);
+          group.targetRows.add(row);
+        });
+        groups.forEach(({ changes, targetRows }) => {
+          this.table(table).updateRows((row) => targetRows.has(row), changes);
+        });
+      });
+
+      deletions.forEach((targets, table) => {
+        if (table !== tableName) this.table(table).deleteRows((row) => targets.has(row));
+      });
+      deleted = this.table(tableName).deleteRows((row) => deletions.get(tableName)!.has(row));
+    } catch (e) {
+      tables.forEach((table) => table.rollback());
+      throw e;
+    }
+    tables.forEach((table) => table.commit());
+    return deleted;
+  }
+
+  private planDelete(
+    tableName: string,
+    rows: Row[],
+    deletions: Map<string, Set<Row>>,
+    nullifications: Map<string, Map<Row, string[]>>,
+    restrictions: Restriction[],
+  ): void {
+    const planned = deletions.get(tableName) ?? new Set<Row>();
+    deletions.set(tableName, planned);
+    const newRows = rows.filter((row) => !planned.has(row));
+    newRows.forEach((row) => planned.add(row));
+    if (!newRows.length) return;
+
+    for (const relation of this._relations) {
+      if (relation.to !== tableName) continue;
+
+      const keys = new Set(newRows.map((row) => row[relation.references!]));
+      keys.delete(null);
+      keys.delete(undefined);
+      const referencing = this.table(relation.from).dataSource.filter((row) => keys.has(row[relation.foreignKey]));
+      if (!referencing.length) continue;
+
+      if (relation.onDelete === 'cascade') {
+        this.planDelete(relation.from, referencing, deletions, nullifications, restrictions);
+      } else if (relation.onDelete === 'setNull') {
+        const targets = nullifications.get(relation.from) ?? new Map<Row, string[]>();
+        nullifications.set(relation.from, targets);
+        referencing.forEach((row) => targets.set(row, [...(targets.get(row) ?? []), relation.foreignKey]));
+      } else {
+        restrictions.push({ table: tableName, relation, rows: referencing });
+      }
+    }
+  }
+}
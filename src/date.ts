@@ -0,0 +1,107 @@
+export type DateUnit = 'day' | 'week' | 'month' | 'year';
+
+export type DateInput = Date | number | string;
+
+/**
+ * 현재 시각 기준 상대 날짜 구간 (UTC 기준)
+ * - `{ this: 'month' }`: 이번 달
+ * - `{ previous: 'month' }`: 지난 달
+ * - `{ last: 7, unit: 'day' }`: 오늘을 포함한 최근 7일
+ * - `{ next: 7, unit: 'day' }`: 오늘을 포함한 앞으로 7일
+ */
+export type RelativeDateRange =
+  | { this: DateUnit }
+  | { previous: DateUnit }
+  | { last: number; unit: DateUnit }
+  | { next: number; unit: DateUnit };
+
+export const DATE_UNITS: readonly DateUnit[] = ['day', 'week', 'month', 'year'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRelativeDateRange(value: any): value is RelativeDateRange {
+  if (!value || typeof value !== 'object' || value instanceof Date || Array.isArray(value)) return false;
+  if ('this' in value) return DATE_UNITS.includes(value.this);
+  if ('previous' in value) return DATE_UNITS.includes(value.previous);
+  if ('last' in value || 'next' in value) {
+    const count = 'last' in value ? value.last : value.next;
+    return typeof count === 'number' && count > 0 && DATE_UNITS.includes(value.unit);
+  }
+  return false;
+}
+
+/**
+ * Date 객체, epoch(ms) 숫자 또는 숫자 문자열, ISO 문자열을 timestamp로 변환
+ * 변환할 수 없으면 undefined 반환
+ */
+export function toTimestamp(value: any): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+
+  let time: number;
+  if (value instanceof Date) time = value.getTime();
+  else if (typeof value === 'number') time = value;
+  else if (typeof value === 'string') {
+    const trimmed = value.trim();
+    time = /^-?\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+  } else return undefined;
+
+  return isFinite(time) ? time : undefined;
+}
+
+export function isDateValue(value: any): boolean {
+  return toTimestamp(value) !== undefined;
+}
+
+export function startOfUnit(time: number, unit: DateUnit): number {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (unit === 'year') return Date.UTC(year, 0, 1);
+  if (unit === 'month') return Date.UTC(year, month, 1);
+
+  const startOfDay = Date.UTC(year, month, date.getUTCDate());
+  if (unit === 'day') return startOfDay;
+
+  // 주의 시작은 월요일
+  return startOfDay - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+export function addUnits(time: number, amount: number, unit: DateUnit): number {
+  if (unit === 'day') return time + amount * DAY_MS;
+  if (unit === 'week') return time + amount * 7 * DAY_MS;
+
+  const date = new Date(time);
+  const months = unit === 'year' ? amount * 12 : amount;
+  return Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + months,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds(),
+  );
+}
+
+/**
+ * 상대 날짜 구간을 [start, end) timestamp 구간으로 변환
+ */
+export function resolveRelativeDateRange(range: RelativeDateRange, now: number): [number, number] {
+  if ('this' in range) {
+    const start = startOfUnit(now, range.this);
+    return [start, addUnits(start, 1, range.this)];
+  }
+
+  if ('previous' in range) {
+    const end = startOfUnit(now, range.previous);
+    return [addUnits(end, -1, range.previous), end];
+  }
+
+  const current = startOfUnit(now, range.unit);
+  if ('last' in range) {
+    return [addUnits(current, -(range.last - 1), range.unit), addUnits(current, 1, range.unit)];
+  }
+
+  return [current, addUnits(current, range.next, range.unit)];
+}
@@ -0,0 +1,336 @@
+import type { TableMetaData } from './index';
+
+type Row = Record<string, any>;
+
+// 프론트엔드 요청 파라미터를 정규화한 목록 조회 요청
+export type ListParams = {
+  // undefined면 전체
+  limit?: number;
+  offset?: number;
+  // 'key:asc' 형식 (selectRows의 sort와 동일)
+  sort?: string[];
+  // 페이징 / 정렬 외 필터 파라미터
+  filters: Record<string, any>;
+};
+
+/**
+ * 백엔드 응답 형식 어댑터
+ * - parseParams: 요청 파라미터(query 객체) → ListParams
+ * - toParams: parseParams의 반대, ListParams → 요청 파라미터 (테스트용 URL 생성)
+ * - format: selectRows(..., meta: true) 결과 → 응답 본문
+ */
+export type Envelope<T = any> = {
+  parseParams(params: Record<string, any>): ListParams;
+  toParams(params: ListParams): Record<string, any>;
+  format(data: TableMetaData, params?: ListParams): T;
+};
+
+export type SpringPage = {
+  content: Row[];
+  totalElements: number;
+  totalPages: number;
+  number: number;
+  size: number;
+  numberOfElements: number;
+  first: boolean;
+  last: boolean;
+  empty: boolean;
+};
+
+export type JsonApiDocument = {
+  data: { type: string; id: string; attributes: Row }[];
+  meta: TableMetaData['meta'];
+  links: Record<string, string | null>;
+};
+
+export type ProTableResult = {
+  data: Row[];
+  total: number;
+  success: boolean;
+  current: number;
+  pageSize: number;
+};
+
+function toInt(value: any): number | undefined {
+  const n = parseInt(Array.isArray(value) ? value[0] : value, 10);
+  return isNaN(n) ? undefined : n;
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function omitKeys(params: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.keys(params).reduce<Record<string, any>>((acc, key) => {
+    if (!keys.includes(key)) acc[key] = params[key];
+    return acc;
+  }, {});
+}
+
+// 'page[size]' 같은 bracket 키와 { page: { size } } 같은 중첩 객체를 모두 지원
+function getNestedParam(params: Record<string, any>, group: string, key: string): any {
+  return params[`${group}[${key}]`] ?? params[group]?.[key];
+}
+
+// 'filter[age][gte]'는 'age[gte]' 키로 변환
+function getNestedParams(params: Record<string, any>, group: string): Record<string, any> {
+  const prefix = `${group}[`;
+  const nested = typeof params[group] === 'object' && params[group] !== null ? { ...params[group] } : {};
+  for (const key of Object.keys(params)) {
+    const rest = key.slice(prefix.length);
+    const end = rest.indexOf(']');
+    if (key.startsWith(prefix) && end > 0) nested[rest.slice(0, end) + rest.slice(end + 1)] = params[key];
+  }
+  return nested;
+}
+
+// 값이 undefined인 파라미터 제외
+function compactParams(params: Record<string, any>): Record<string, any> {
+  return Object.keys(params).reduce<Record<string, any>>((acc, key) => {
+    if (params[key] !== undefined) acc[key] = params[key];
+    return acc;
+  }, {});
+}
+
+// 'key:order' → [key, 'asc' | 'desc'] (order가 없으면 asc)
+function splitSort(sort: string): [string, 'asc' | 'desc'] {
+  const index = sort.lastIndexOf(':');
+  if (index === -1) return [sort, 'asc'];
+  const order = sort.slice(index + 1).toLowerCase();
+  return [sort.slice(0, index), order === 'desc' || order === 'descend' ? 'desc' : 'asc'];
+}
+
+// limit / offset → 페이지 번호(0부터), limit이 없으면 undefined
+function toPage({ limit, offset = 0 }: ListParams): number | undefined {
+  return limit ? Math.floor(offset / limit) : undefined;
+}
+
+// meta의 limit / offset으로 페이지 정보 계산 (page는 0부터), limit이 없으면 전체가 한 페이지
+function getPageInfo({ meta }: TableMetaData): { page: number; size: number; totalPages: number } {
+  const size = meta.limit ?? meta.totalCount;
+  if (!size) return { page: 0, size, totalPages: 0 };
+  return { page: Math.floor(meta.offset / size), size, totalPages: Math.ceil(meta.totalCount / size) };
+}
+
+/**
+ * limit / offset / sort 파라미터, 응답은 TableMetaData 그대로
+ */
+export function tableEnvelope(): Envelope<TableMetaData> {
+  return {
+    parseParams: (params) => ({
+      limit: toInt(params.limit),
+      offset: toInt(params.offset),
+      sort: toArray(params.sort).length ? toArray(params.sort) : undefined,
+      filters: omitKeys(params, ['limit', 'offset', 'sort']),
+    }),
+    toParams: ({ limit, offset, sort, filters }) => compactParams({ ...filters, limit, offset, sort }),
+    format: (data) => data,
+  };
+}
+
+/**
+ * Spring Data Page
+ * - 요청: page(0부터, 기본값 0), size(기본값 20), sort=name,desc (여러 개 가능)
+ * - 응답: { content, totalElements, totalPages, number, size, numberOfElements, first, last, empty }
+ */
+export function springPageEnvelope(options: { defaultSize?: number } = {}): Envelope<SpringPage> {
+  const defaultSize = options.defaultSize ?? 20;
+
+  const parseSort = (value: string): string[] => {
+    const parts = value
+      .split(',')
+      .map((part) => part.trim())
+      .filter(Boolean);
+    const last = parts[parts.length - 1]?.toLowerCase();
+    const direction = last === 'asc' || last === 'desc' ? parts.pop()!.toLowerCase() : 'asc';
+    return parts.map((key) => `${key}:${direction}`);
+  };
+
+  return {
+    parseParams: (params) => {
+      const size = toInt(params.size) ?? defaultSize;
+      const page = Math.max(toInt(params.page) ?? 0, 0);
+      const sort = toArray(params.sort).flatMap((value) => parseSort(String(value)));
+      return {
+        limit: size,
+        offset: page * size,
+        sort: sort.length ? sort : undefined,
+        filters: omitKeys(params, ['page', 'size', 'sort']),
+      };
+    },
+    toParams: (params) =>
+      compactParams({
+        ...params.filters,
+        page: toPage(params),
+        size: params.limit,
+        sort: params.sort?.map((sort) => splitSort(sort).join(',')),
+      }),
+    format: (data) => {
+      const { page, size, totalPages } = getPageInfo(data);
+      return {
+        content: data.result,
+        totalElements: data.meta.totalCount,
+        totalPages,
+        number: page,
+        size,
+        numberOfElements: data.result.length,
+        first: page === 0,
+        last: page >= totalPages - 1,
+        empty: data.result.length === 0,
+      };
+    },
+  };
+}
+
+/**
+ * JSON:API
+ * - 요청: page[number](1부터) / page[size] 또는 page[offset] / page[limit], sort=-createdAt,name, filter[role]=admin
+ * - 응답: { data: [{ type, id, attributes }], meta, links }
+ */
+export function jsonApiEnvelope(options: {
+  type: string;
+  primaryKey?: string;
+  baseUrl?: string;
+}): Envelope<JsonApiDocument> {
+  const { type, primaryKey = 'id', baseUrl = '' } = options;
+
+  const toResource = (row: Row) => {
+    const { [primaryKey]: id, ...attributes } = row;
+    return { type, id: String(id), attributes };
+  };
+
+  const pageLink = (pageNumber: number, size: number) => `${baseUrl}?page[number]=${pageNumber}&page[size]=${size}`;
+
+  return {
+    parseParams: (params) => {
+      const size = toInt(getNestedParam(params, 'page', 'size'));
+      const pageNumber = toInt(getNestedParam(params, 'page', 'number'));
+      const limit = toInt(getNestedParam(params, 'page', 'limit')) ?? size;
+      const offset =
+        toInt(getNestedParam(params, 'page', 'offset')) ??
+        (size !== undefined && pageNumber !== undefined ? (Math.max(pageNumber, 1) - 1) * size : undefined);
+
+      const sort = toArray(params.sort)
+        .flatMap((value) => String(value).split(','))
+        .map((key) => key.trim())
+        .filter(Boolean)
+        .map((key) => (key.startsWith('-') ? `${key.slice(1)}:desc` : `${key}:asc`));
+
+      return { limit, offset, sort: sort.length ? sort : undefined, filters: getNestedParams(params, 'filter') };
+    },
+    toParams: (params) => {
+      const { limit, offset = 0, sort, filters } = params;
+      const result: Record<string, any> = {};
+      // offset이 페이지 경계가 아니면 page[offset] / page[limit] 사용
+      if (limit && offset % limit === 0) {
+        Object.assign(result, { 'page[number]': toPage(params)! + 1, 'page[size]': limit });
+      } else if (limit !== undefined || offset) {
+        Object.assign(result, { 'page[offset]': offset, 'page[limit]': limit });
+      }
+      if (sort?.length) {
+        result.sort = sort
+          .map(splitSort)
+          .map(([key, order]) => (order === 'desc' ? `-${key}` : key))
+          .join(',');
+      }
+      for (const key of Object.keys(filters)) {
+        const bracket = key.indexOf('[');
+        result[bracket === -1 ? `filter[${key}]` : `filter[${key.slice(0, bracket)}]${key.slice(bracket)}`] =
+          filters[key];
+      }
+      return compactParams(result);
+    },
+    format: (data) => {
+      const { page, size, totalPages } = getPageInfo(data);
+      const links: Record<string, string | null> = { self: baseUrl || null };
+      if (data.meta.limit !== null && size > 0) {
+        const last = Math.max(totalPages, 1);
+        Object.assign(links, {
+          self: pageLink(page + 1, size),
+          first: pageLink(1, size),
+          prev: page > 0 ? pageLink(page, size) : null,
+          next: page + 1 < totalPages ? pageLink(page + 2, size) : null,
+          last: pageLink(last, size),
+        });
+      }
+      return { data: data.result.map(toResource), meta: data.meta, links };
+    },
+  };
+}
+
+/**
+ * Ant Design ProTable request
+ * - 요청: current(1부터), pageSize, sort / sorter({ name: 'ascend' } 또는 JSON 문자열), filter({ status: ['a'] })
+ * - 응답: { data, total, success, current, pageSize }
+ */
+export function proTableEnvelope(): Envelope<ProTableResult> {
+  const parseObject = (value: any): Record<string, any> => {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value) ?? {};
+      } catch (e) {
+        return {};
+      }
+    }
+    return value && typeof value === 'object' ? value : {};
+  };
+
+  return {
+    parseParams: (params) => {
+      const pageSize = toInt(params.pageSize);
+      const current = Math.max(toInt(params.current) ?? 1, 1);
+      const sorter = parseObject(params.sorter ?? params.sort);
+      const sort = Object.keys(sorter)
+        .filter((key) => sorter[key])
+        .map((key) => `${key}:${sorter[key]}`);
+
+      // 값이 없는 필터(null)는 제외
+      const filter = parseObject(params.filter);
+      const filters = omitKeys(params, ['current', 'pageSize', 'sort', 'sorter', 'filter']);
+      for (const key of Object.keys(filter)) {
+        if (filter[key] !== null && filter[key] !== undefined) filters[key] = filter[key];
+      }
+
+      return {
+        limit: pageSize,
+        offset: pageSize === undefined ? undefined : (current - 1) * pageSize,
+        sort: sort.length ? sort : undefined,
+        filters,
+      };
+    },
+    toParams: (params) => {
+      const page = toPage(params);
+      const sorter = (params.sort ?? []).map(splitSort).reduce<Record<string, string>>((acc, [key, order]) => {
+        acc[key] = `${order}end`;
+        return acc;
+      }, {});
+      return compactParams({
+        ...params.filters,
+        current: page === undefined ? undefined : page + 1,
+        pageSize: params.limit,
+        sorter: Object.keys(sorter).length ? sorter : undefined,
+      });
+    },
+    format: (data) => {
+      const { page, size } = getPageInfo(data);
+      return { data: data.result, total: data.meta.totalCount, success: true, current: page + 1, pageSize: size };
+    },
+  };
+}
+
+/**
+ * 사용자 정의 envelope, parseParams / toParams를 생략하면 tableEnvelope와 같은 limit / offset / sort 파라미터 사용
+ */
+export function createEnvelope<T>(envelope: {
+  parseParams?: Envelope['parseParams'];
+  toParams?: Envelope['toParams'];
+  format: Envelope<T>['format'];
+}): Envelope<T> {
+  const { parseParams, toParams } = tableEnvelope();
+  return {
+    parseParams: envelope.parseParams ?? parseParams,
+    toParams: envelope.toParams ?? toParams,
+    format: envelope.format,
+  };
+}
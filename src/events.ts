@@ -0,0 +1,49 @@
+type Row = Record<string, any>;
+
+export type TableChangeType = 'insert' | 'update' | 'delete';
+
+// insert는 before가, delete는 after가 null
+export type TableChange = {
+  type: TableChangeType;
+  before: Row | null;
+  after: Row | null;
+};
+
+export type TableEventMap = {
+  insert: TableChange;
+  update: TableChange;
+  delete: TableChange;
+  // 쓰기 메서드 호출(트랜잭션이면 최종 commit) 단위로 한 번, 해당 호출의 모든 변경 목록
+  change: TableChange[];
+};
+
+export type TableEventListener<K extends keyof TableEventMap> = (payload: TableEventMap[K]) => void;
+
+/**
+ * 이벤트 이름별 listener 목록 관리
+ */
+export default class TableEvents {
+  private readonly _listeners = new Map<keyof TableEventMap, Set<(payload: any) => void>>();
+
+  get size(): number {
+    let size = 0;
+    this._listeners.forEach((listeners) => (size += listeners.size));
+    return size;
+  }
+
+  on<K extends keyof TableEventMap>(event: K, listener: TableEventListener<K>): void {
+    const listeners = this._listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this._listeners.set(event, listeners);
+  }
+
+  off<K extends keyof TableEventMap>(event: K, listener: TableEventListener<K>): void {
+    this._listeners.get(event)?.delete(listener);
+  }
+
+  // listener 안에서 구독을 해제해도 이번 emit의 나머지 listener는 그대로 호출
+  emit<K extends keyof TableEventMap>(event: K, payload: TableEventMap[K]): void {
+    const listeners = this._listeners.get(event);
+    if (listeners) Array.from(listeners).forEach((listener) => listener(payload));
+  }
+}
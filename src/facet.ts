@@ -0,0 +1,121 @@
+import { get } from 'lodash/fp';
+import { ConditionItem, ConditionNode, getConditionKey, isConditionGroup, toConditionTree } from './condition';
+import { toTimestamp } from './date';
+
+type Row = Record<string, any>;
+
+export type FacetOptions = {
+  column: string;
+  // 'number' / 'date'면 min / max / buckets 계산 (기본값: 스키마 타입, 없으면 값이 모두 숫자일 때 'number')
+  type?: 'string' | 'number' | 'boolean' | 'date';
+  // values 최대 개수
+  limit?: number;
+  // min ~ max를 나눌 구간 수 (기본값 5)
+  buckets?: number;
+};
+
+export type FacetRequest = string | FacetOptions;
+
+export type FacetValue = { value: any; count: number };
+
+// [from, to) 구간, 마지막 구간은 to 포함
+export type FacetBucket = { from: any; to: any; count: number };
+
+export type Facet = {
+  // 개수 내림차순, 개수가 같으면 처음 등장한 순서
+  values: FacetValue[];
+  min?: any;
+  max?: any;
+  buckets?: FacetBucket[];
+};
+
+function targetsColumnOnly(node: ConditionNode, column: string): boolean {
+  if (isConditionGroup(node)) {
+    return node.conditions.length > 0 && node.conditions.every((child) => targetsColumnOnly(child, column));
+  }
+  return getConditionKey(node) === column;
+}
+
+/**
+ * 최상위 AND 조건에서 column만 대상으로 하는 조건(e.g. `{ role: 'admin' }`, role만 가진 OR 그룹)을 제외
+ * 다른 컬럼과 섞인 그룹은 그대로 유지
+ */
+export function excludeColumnConditions(conditions: ConditionNode | ConditionItem[], column: string): ConditionNode {
+  const tree = toConditionTree(conditions);
+  if (isConditionGroup(tree) && (tree.logic ?? 'AND') === 'AND') {
+    return { ...tree, conditions: tree.conditions.filter((child) => !targetsColumnOnly(child, column)) };
+  }
+  return targetsColumnOnly(tree, column) ? { conditions: [] } : tree;
+}
+
+function countValues(rows: Row[], column: string): FacetValue[] {
+  const counts = new Map<any, number>();
+  for (const row of rows) {
+    const value = get(column, row);
+    // 배열 값(tags 등)은 원소별로 집계
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const key = item ?? null;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+}
+
+// 구간 계산용 숫자, 변환할 수 없으면 undefined
+function toPoint(value: any, type: 'number' | 'date'): number | undefined {
+  if (type === 'date') return toTimestamp(value);
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+function buildBuckets(points: [number, any][], size: number, format: (point: number) => any): FacetBucket[] {
+  const min = points[0][0];
+  const max = points[points.length - 1][0];
+  const width = (max - min) / size;
+  if (width === 0) return [{ from: format(min), to: format(max), count: points.length }];
+
+  const buckets = Array.from({ length: size }).map((_, i) => ({
+    from: format(min + width * i),
+    to: format(i === size - 1 ? max : min + width * (i + 1)),
+    count: 0,
+  }));
+  for (const [point] of points) {
+    buckets[Math.min(Math.floor((point - min) / width), size - 1)].count++;
+  }
+  return buckets;
+}
+
+/**
+ * column의 값별 개수, 숫자 / 날짜 컬럼이면 min / max와 구간별 개수
+ */
+export function computeFacet(rows: Row[], options: FacetOptions, schemaType?: FacetOptions['type']): Facet {
+  const { column, limit, buckets = 5 } = options;
+  const counted = countValues(rows, column);
+  const facet: Facet = { values: limit === undefined ? counted : counted.slice(0, limit) };
+
+  const present = counted.map(({ value }) => value).filter((value) => value !== null);
+  const type =
+    options.type ??
+    schemaType ??
+    (present.length && present.every((v) => typeof v === 'number') ? 'number' : undefined);
+  if (type !== 'number' && type !== 'date') return facet;
+
+  // [비교용 숫자, 원래 값] 목록
+  const points = rows
+    .map((row): [number | undefined, any] => {
+      const value = get(column, row);
+      return [toPoint(value, type), value];
+    })
+    .filter((point): point is [number, any] => point[0] !== undefined)
+    .sort((a, b) => a[0] - b[0]);
+  if (!points.length) return { ...facet, min: null, max: null, buckets: [] };
+
+  const format = type === 'date' ? (point: number) => new Date(point).toISOString() : (point: number) => point;
+  return {
+    ...facet,
+    min: points[0][1],
+    max: points[points.length - 1][1],
+    buckets: buildBuckets(points, Math.max(1, Math.floor(buckets)), format),
+  };
+}
@@ -0,0 +1,157 @@
+import { DateInput, toTimestamp } from './date';
+import { createRandom, pickRandom, randomInt, RandomSource } from './random';
+
+type Row = Record<string, any>;
+
+// 앞서 생성된 컬럼 값을 가진 row, row 순번(0부터), 시드 난수를 받아 값을 생성
+export type DeriveFunction = (row: Row, index: number, random: RandomSource) => any;
+
+type ColumnGeneratorBase = {
+  // null이 될 비율 (0 ~ 1)
+  nullable?: number;
+};
+
+export type ColumnGenerator = ColumnGeneratorBase &
+  (
+    | { type: 'sequence'; start?: number; step?: number; prefix?: string }
+    | { type: 'pick'; values: readonly any[] }
+    | { type: 'weighted'; values: readonly [any, number][] | Record<string, number> }
+    | { type: 'number'; min: number; max: number; precision?: number }
+    | { type: 'boolean'; probability?: number }
+    | { type: 'date'; from: DateInput; to: DateInput; format?: 'iso' | 'date' | 'timestamp' }
+    | { type: 'name'; locale?: 'en' | 'ko' }
+    | { type: 'email'; domain?: string; from?: string }
+    | { type: 'derive'; derive: DeriveFunction }
+  );
+
+// 컬럼명 → 생성 규칙, 함수는 { type: 'derive' }와 동일
+// 컬럼은 선언 순서대로 생성되므로 derive에서는 앞선 컬럼 값을 사용할 수 있음
+export type GeneratorSpec = Record<string, ColumnGenerator | DeriveFunction>;
+
+export type GenerateOptions = {
+  count: number;
+  // 같은 seed면 항상 같은 데이터 생성 (기본값 1)
+  seed?: number | string;
+};
+
+// 이름 생성용 목록
+const EN_FIRST_NAMES = 'James Mary John Patricia Robert Jennifer Michael Linda William Emma David Susan'.split(' ');
+const EN_LAST_NAMES = 'Smith Johnson Williams Brown Jones Garcia Miller Davis Wilson Anderson Taylor Moore'.split(' ');
+const KO_SURNAMES = '김 이 박 최 정 강 조 윤 장 임 한 오 서 신'.split(' ');
+const KO_GIVEN_NAMES = '민준 서연 도윤 서윤 시우 지우 하준 하은 주원 민서 지호 수아 예준 지민 현우 채원'.split(' ');
+
+function toWeightedEntries(values: readonly [any, number][] | Record<string, number>): [any, number][] {
+  return Array.isArray(values) ? [...values] : Object.entries(values);
+}
+
+function pickWeighted(random: RandomSource, entries: [any, number][], total: number): any {
+  let threshold = random() * total;
+  for (const [value, weight] of entries) {
+    threshold -= weight;
+    if (threshold < 0) return value;
+  }
+  return entries[entries.length - 1][0];
+}
+
+function formatDate(time: number, format: 'iso' | 'date' | 'timestamp' = 'iso'): string | number {
+  if (format === 'timestamp') return time;
+  const iso = new Date(time).toISOString();
+  return format === 'date' ? iso.slice(0, 10) : iso;
+}
+
+// 이름 등 문자열을 이메일 아이디로 변환, 영문/숫자가 없으면 'user'
+function toEmailLocalPart(value: any): string {
+  const local =
+    typeof value === 'string'
+      ? value
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, '.')
+          .replace(/^\.+|\.+$/g, '')
+      : '';
+  return local || 'user';
+}
+
+// 컬럼 생성 규칙을 검증하고 (row, index) → 값 함수로 변환
+function compileColumn(column: string, generator: ColumnGenerator | DeriveFunction, random: RandomSource) {
+  if (typeof generator === 'function') return (row: Row, index: number) => generator(row, index, random);
+
+  switch (generator.type) {
+    case 'sequence': {
+      const { start = 1, step = 1, prefix } = generator;
+      return (_: Row, index: number) =>
+        prefix === undefined ? start + index * step : `${prefix}${start + index * step}`;
+    }
+    case 'pick': {
+      if (!generator.values.length) throw new Error(`Invalid generator for column '${column}': values is empty`);
+      return () => pickRandom(random, generator.values);
+    }
+    case 'weighted': {
+      const entries = toWeightedEntries(generator.values);
+      const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+      if (!entries.length || entries.some(([, weight]) => !(weight >= 0)) || !(total > 0)) {
+        throw new Error(`Invalid generator for column '${column}': weights must be non-negative with a positive total`);
+      }
+      return () => pickWeighted(random, entries, total);
+    }
+    case 'number': {
+      const { min, max, precision = 0 } = generator;
+      if (!(min <= max)) {
+        throw new Error(`Invalid generator for column '${column}': min must be less than or equal to max`);
+      }
+      const factor = Math.pow(10, precision);
+      // 1.1 * 10 = 11.000000000000002 같은 부동소수점 오차 제거 후 올림 / 내림
+      const low = Math.ceil(Number((min * factor).toPrecision(12)));
+      const high = Math.floor(Number((max * factor).toPrecision(12)));
+      if (low > high) {
+        throw new Error(`Invalid generator for column '${column}': no value with precision ${precision} in [min, max]`);
+      }
+      return () => randomInt(random, low, high) / factor;
+    }
+    case 'boolean': {
+      const probability = generator.probability ?? 0.5;
+      return () => random() < probability;
+    }
+    case 'date': {
+      const from = toTimestamp(generator.from);
+      const to = toTimestamp(generator.to);
+      if (from === undefined || to === undefined || from > to) {
+        throw new Error(`Invalid date range for column '${column}'`);
+      }
+      return () => formatDate(randomInt(random, from, to), generator.format);
+    }
+    case 'name': {
+      if (generator.locale === 'ko') return () => pickRandom(random, KO_SURNAMES) + pickRandom(random, KO_GIVEN_NAMES);
+      return () => `${pickRandom(random, EN_FIRST_NAMES)} ${pickRandom(random, EN_LAST_NAMES)}`;
+    }
+    case 'email': {
+      // 중복되지 않도록 row 순번을 붙임
+      const { domain = 'example.com', from } = generator;
+      return (row: Row, index: number) =>
+        `${toEmailLocalPart(from === undefined ? undefined : row[from])}${index + 1}@${domain}`;
+    }
+    case 'derive':
+      return (row: Row, index: number) => generator.derive(row, index, random);
+    default:
+      throw new Error(`Invalid generator type for column '${column}': ${(generator as any).type}`);
+  }
+}
+
+/**
+ * 컬럼 생성 규칙에 따라 count개의 row 생성
+ */
+export function generateRows(spec: GeneratorSpec, options: GenerateOptions): Row[] {
+  const random = createRandom(options.seed);
+  const columns = Object.keys(spec).map((column) => {
+    const generator = spec[column];
+    const nullable = typeof generator === 'function' ? 0 : generator.nullable ?? 0;
+    return { column, nullable, generate: compileColumn(column, generator, random) };
+  });
+
+  return Array.from({ length: options.count }).map((_, index) => {
+    const row: Row = {};
+    for (const { column, nullable, generate } of columns) {
+      row[column] = nullable > 0 && random() < nullable ? null : generate(row, index);
+    }
+    return row;
+  });
+}
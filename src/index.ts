@@ -1,59 +1,214 @@
-import { filter, get, includes, orderBy, eq } from 'lodash/fp';
+import { filter, get, isEqual, orderBy, set } from 'lodash/fp';
+import { aggregateRows, AggregateMetric } from './aggregate';
+import {
+  applyColumnType,
+  compileCondition,
+  ConditionItem,
+  ConditionNode,
+  ConditionPredicate,
+  getIndexableValues,
+  getKeyEquality,
+  isConditionGroup,
+  StringMatchDefaults,
+  toConditionTree,
+  validateConditionItem,
+} from './condition';
+import { decodeCursor, encodeCursor } from './cursor';
+import TableEvents, { TableChange, TableChangeType, TableEventListener, TableEventMap } from './events';
+import { computeFacet, excludeColumnConditions, Facet, FacetRequest } from './facet';
+import { GenerateOptions, generateRows, GeneratorSpec } from './generator';
+import { coerceColumnValue, getColumnTypes, normalizeRow, TableSchema, validateRow } from './schema';
+import SecondaryIndex from './secondary-index';
+
+export { AGGREGATE_FUNCTIONS } from './aggregate';
+export type { AggregateFunction, AggregateMetric } from './aggregate';
+export { default as AsyncTableData } from './async-table';
+export type { AsyncMethod, AsyncTableDataOptions, FaultOptions, Latency } from './async-table';
+export { CONDITION_OPERATORS, CONDITION_RESERVED_KEYS, STRING_MATCH_MODES } from './condition';
+export type {
+  ConditionGroup,
+  ConditionItem,
+  ConditionNode,
+  ConditionOperator,
+  ConditionPredicate,
+  LogicOperator,
+  StringMatchDefaults,
+  StringMatchMode,
+} from './condition';
+export type { DateInput, DateUnit, RelativeDateRange } from './date';
+export { default as MockDatabase } from './database';
+export type { ReferentialAction, RelationDefinition, SelectOptions } from './database';
+export { createEnvelope, jsonApiEnvelope, proTableEnvelope, springPageEnvelope, tableEnvelope } from './envelope';
+export type { Envelope, JsonApiDocument, ListParams, ProTableResult, SpringPage } from './envelope';
+export type { TableChange, TableChangeType, TableEventListener, TableEventMap } from './events';
+export type { Facet, FacetBucket, FacetOptions, FacetRequest, FacetValue } from './facet';
+export { generateRows } from './generator';
+export { createMswHandlers } from './msw';
+export type { MswHandlerOptions, MswHttp, MswResolver, MswResolverInfo } from './msw';
+export { parseQuery, stringifyQuery } from './query';
+export type { QueryInput, QueryOptions, TableQuery } from './query';
+export { createRestHandler, toNodeListener } from './rest';
+export type {
+  NodeRequestLike,
+  NodeResponseLike,
+  RestHandler,
+  RestHandlerOptions,
+  RestRequest,
+  RestResponse,
+} from './rest';
+export type { ColumnGenerator, DeriveFunction, GenerateOptions, GeneratorSpec } from './generator';
+export { createRandom } from './random';
+export type { RandomSource } from './random';
+export { SchemaValidationError } from './schema';
+export type { ColumnDefinition, ColumnType, SchemaFieldError, TableSchema } from './schema';
+export type { NormalizationForm } from './text';
+
+// 조건 트리 또는 compileConditions로 미리 컴파일한 predicate
+export type ConditionInput = ConditionNode | ConditionItem[] | ConditionPredicate;
 
-export type LogicOperator = 'AND' | 'OR';
+export type TableDataOptions = {
+  primaryKey?: string;
+  dataProcessing?: (dataSource: Record<string, any>[]) => Record<string, any>[];
+  // 상대 날짜 조건의 기준 시각 (테스트에서 고정 시각 주입용)
+  now?: () => Date | number;
+  stringMatch?: StringMatchDefaults;
+  // 보조 인덱스를 생성할 컬럼 목록 (createIndex와 동일)
+  indexes?: string[];
+  // 컬럼 정의, 쓰기 시 기본값 / 타입 변환 / 검증에 사용하고 조건의 type을 추론
+  schema?: TableSchema;
+};
 
-export const CONDITION_RESERVED_KEYS = ['type', 'required', 'like'] as const;
+export type UpdateRowOptions = {
+  // true면 전달한 필드만 기존 row에 병합 ('address.city' 같은 경로 키 지원)
+  patch?: boolean;
+};
 
-export type ConditionItem = {
-  [key: string]: any;
-  type?: 'string' | 'number' | 'boolean';
-  required?: boolean;
-  like?: boolean;
+export type AggregateOptions = {
+  conditions?: ConditionInput;
+  groupBy?: string | string[];
+  // 결과 필드명 → 집계 방법 (기본값 { count: { fn: 'count' } })
+  metrics?: Record<string, AggregateMetric>;
+  // selectRows와 같은 형식, groupBy 키와 metric 이름으로 정렬
+  sort?: any;
+  limit?: any;
+  offset?: any;
 };
 
-export type ConditionNode =
-  | {
-      logic?: LogicOperator;
-      conditions: ConditionNode[];
-    }
-  | ConditionItem;
+// subscribe로 구독할 조회 (selectRows와 같은 형식)
+export type LiveQuery = {
+  conditions?: ConditionInput;
+  sort?: any;
+  limit?: any;
+  offset?: any;
+};
 
-function isConditionGroup(node: ConditionNode): node is { logic?: LogicOperator; conditions: ConditionNode[] } {
-  return 'conditions' in node && Array.isArray((node as any).conditions);
-}
+type Paging = {
+  // undefined면 전체
+  limit?: number;
+  offset: number;
+};
 
-function isSkippableValue(value: any): boolean {
-  return value === undefined;
+/**
+ * limit / offset 정규화 (문자열 허용)
+ * - limit: undefined / null / 숫자가 아닌 값(parseInt 결과 NaN)은 전체, 0은 빈 결과, 음수는 0
+ * - offset: 숫자가 아니거나 음수면 0
+ */
+function normalizePaging(limit: any, offset: any): Paging {
+  const nLimit = parseInt(limit, 10);
+  const nOffset = parseInt(offset, 10);
+  return {
+    limit: isNaN(nLimit) ? undefined : Math.max(nLimit, 0),
+    offset: isNaN(nOffset) ? 0 : Math.max(nOffset, 0),
+  };
 }
 
-function isRequiredEmpty(value: any): boolean {
-  return value === undefined || value === null || value === '';
+// 변경할 필드만 병합, 'address.city' 같은 경로 키는 중첩 객체를 복사하면서 설정
+function mergeChanges(row: Record<string, any>, changes: Record<string, any>): Record<string, any> {
+  return Object.keys(changes).reduce((acc, key) => set(key, changes[key], acc), row);
 }
 
-export type TableDataOptions = {
-  primaryKey?: string;
-  dataProcessing?: (dataSource: Record<string, any>[]) => Record<string, any>[];
-};
+// 문자열이면 after와 동일
+export type CursorInput = string | { after?: string; before?: string };
+
+export interface CursorTableMetaData {
+  result: Record<string, any>[];
+  meta: {
+    totalCount: number;
+    currentCount: number;
+    limit: number | null;
+    // 현재 페이지 다음 / 이전 row가 있으면 해당 방향의 cursor, 없으면 null
+    nextCursor: string | null;
+    prevCursor: string | null;
+    // 요청한 방향(after면 다음, before면 이전)으로 row가 더 있는지 여부
+    hasMore: boolean;
+  };
+}
 
 export interface TableMetaData {
   result: Record<string, any>[];
   meta: {
     totalCount: number;
     currentCount: number;
-    limit: number;
+    // limit이 없으면 null
+    limit: number | null;
     offset: number;
   };
 }
 
+export interface TablePageData {
+  result: Record<string, any>[];
+  meta: TableMetaData['meta'] & {
+    // 범위를 벗어난 요청은 1 ~ totalPages로 보정된 값
+    page: number;
+    // pageSize가 없으면 null (전체가 한 페이지)
+    pageSize: number | null;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
 export default class TableData {
   private readonly _dataSource: Record<string, any>[];
   private readonly _primaryKey?: string;
   private readonly dataProcessing?: (dataSource: Record<string, any>[]) => Record<string, any>[];
+  private readonly _now: () => Date | number;
+  private readonly _stringMatch: StringMatchDefaults;
+  private readonly _schema?: TableSchema;
+  private readonly _columnTypes?: Record<string, ConditionItem['type']>;
+  // primaryKey 값 → 해당 값을 가진 첫 번째 row
+  private readonly _primaryIndex = new Map<any, Record<string, any>>();
+  private _hasDuplicateKeys = false;
+  // 인덱스에 반영된 row 수, dataSource 길이와 다르면 직접 추가 / 삭제된 것으로 보고 다시 인덱싱
+  private _trackedCount = 0;
+  // getNewId용 primaryKey 최댓값, dirty면 다음 조회 시 다시 계산
+  private _maxId: any;
+  private _maxIdDirty = true;
+  // 컬럼명 → 보조 인덱스
+  private readonly _indexes = new Map<string, SecondaryIndex>();
+  // row의 dataSource 내 상대 순서, 보조 인덱스 bucket 정렬에 사용
+  private readonly _rowSeq = new WeakMap<Record<string, any>, number>();
+  private _nextSeq = 0;
+  // begin 시점의 row 목록, 보조 인덱스 컬럼, 쌓여 있던 변경 수, 중첩된 begin은 savepoint로 쌓임
+  private readonly _savepoints: { rows: Record<string, any>[]; indexes: string[]; changes: number }[] = [];
+  private readonly _events = new TableEvents();
+  // compileConditions로 만든 predicate → 원본 조건 트리, predicate로 조회해도 인덱스를 사용하기 위해 보관
+  private readonly _compiledConditions = new WeakMap<ConditionPredicate, ConditionNode>();
+  // 아직 이벤트로 전달하지 않은 변경, 쓰기 메서드가 끝날 때(트랜잭션이면 최종 commit 시) 전달
+  private _pendingChanges: TableChange[] = [];
 
   constructor(dataSource: Record<string, any>[], tableOptions: TableDataOptions = {}) {
     this._dataSource = dataSource;
     this._primaryKey = tableOptions.primaryKey;
     this.dataProcessing = tableOptions.dataProcessing;
+    this._now = tableOptions.now ?? Date.now;
+    this._stringMatch = tableOptions.stringMatch ?? {};
+    this._schema = tableOptions.schema;
+    this._columnTypes = this._schema && getColumnTypes(this._schema);
+    for (const column of tableOptions.indexes ?? []) {
+      this._indexes.set(column, new SecondaryIndex(column, this.getRowSeq));
+    }
+    this.reindex();
   }
 
   static getSortOption(sort: any) {
@@ -62,71 +217,236 @@ export default class TableData {
     return undefined;
   }
 
-  private static validateConditionItem(item: ConditionItem): void {
-    const key = Object.keys(item).find((k) => !(CONDITION_RESERVED_KEYS as readonly string[]).includes(k));
-    if (!key) throw new Error('Invalid condition item: no key provided');
+  /**
+   * 생성 규칙으로 count개의 row를 만들어 TableData 생성 (primaryKey 기본값 'id')
+   * spec에 primaryKey 컬럼이 없으면 1부터 시작하는 sequence 컬럼을 맨 앞에 추가
+   */
+  static generate(spec: GeneratorSpec, options: GenerateOptions & TableDataOptions): TableData {
+    const { count, seed, ...tableOptions } = options;
+    const primaryKey = tableOptions.primaryKey ?? 'id';
+    const fullSpec: GeneratorSpec = primaryKey in spec ? spec : { [primaryKey]: { type: 'sequence' }, ...spec };
+    return new TableData(generateRows(fullSpec, { count, seed }), { ...tableOptions, primaryKey });
+  }
 
-    const value = item[key];
-    const { required, type } = item;
+  private currentTime(): number {
+    const now = this._now();
+    return now instanceof Date ? now.getTime() : now;
+  }
 
-    if (required && isRequiredEmpty(value)) {
-      throw new Error(`Missing required field: ${key}`);
-    }
+  /**
+   * 조건 트리를 한 번 검증하고 재사용 가능한 predicate로 컴파일
+   * 반환값은 filteredList / selectRows / selectRow / updateRow / deleteRow의 조건으로 그대로 사용 가능
+   * 상대 날짜 조건의 기준 시각은 컴파일 시점에 고정됨
+   * 같은 테이블에서 사용하면 원본 조건으로 primaryKey / 보조 인덱스를 사용
+   */
+  compileConditions(conditions: ConditionNode | ConditionItem[]): ConditionPredicate {
+    const tree = toConditionTree(conditions);
+    const predicate = compileCondition(tree, {
+      now: this.currentTime(),
+      stringMatch: this._stringMatch,
+      columnTypes: this._columnTypes,
+    });
+    this._compiledConditions.set(predicate, tree);
+    return predicate;
+  }
 
-    if (!isSkippableValue(value) && type) {
-      const typeCheck = {
-        string: (v: any) => typeof v === 'string',
-        number: (v: any) => typeof v === 'number' || (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))),
-        boolean: (v: any) => typeof v === 'boolean' || v === 'true' || v === 'false',
-      }[type];
+  private toPredicate(conditions: ConditionInput): ConditionPredicate {
+    return typeof conditions === 'function' ? conditions : this.compileConditions(conditions);
+  }
 
-      if (typeCheck && !typeCheck(value)) {
-        throw new Error(`Type mismatch for key '${key}': expected ${type}, got ${typeof value}`);
-      }
-    }
+  // 인덱스 사용 판단용 조건 트리, 이 테이블의 compileConditions로 만들지 않은 predicate면 undefined
+  private getConditionTree(conditions: ConditionInput): ConditionNode | undefined {
+    return typeof conditions === 'function' ? this._compiledConditions.get(conditions) : toConditionTree(conditions);
   }
 
-  private evaluateCondition(row: Record<string, any>, node: ConditionNode): boolean {
-    if (isConditionGroup(node)) {
-      const logic = node.logic ?? 'AND';
-      const results = node.conditions.map((child) => this.evaluateCondition(row, child));
-      return logic === 'AND' ? results.every(Boolean) : results.some(Boolean);
-    }
+  get dataSource() {
+    return this._dataSource;
+  }
+
+  get primaryKey() {
+    return this._primaryKey;
+  }
+
+  get schema() {
+    return this._schema;
+  }
+
+  // 스키마의 기본값 / 타입 변환 적용
+  private prepareRow(row: Record<string, any>): Record<string, any> {
+    return this._schema ? normalizeRow(row, this._schema) : row;
+  }
 
-    TableData.validateConditionItem(node);
+  // 스키마 검증, 잘못된 필드를 모두 모아 SchemaValidationError 발생
+  private assertValidRow(row: Record<string, any>): void {
+    if (this._schema) validateRow(row, this._schema);
+  }
 
-    const key = Object.keys(node).find((k) => !(CONDITION_RESERVED_KEYS as readonly string[]).includes(k));
-    if (!key) return false;
+  /**
+   * primaryKey 인덱스와 보조 인덱스를 다시 생성
+   * insertRow / updateRow / deleteRow를 거치지 않고 dataSource를 직접 수정한 경우 호출
+   */
+  reindex(): void {
+    this._primaryIndex.clear();
+    this._hasDuplicateKeys = false;
+    this._maxIdDirty = true;
+    this._indexes.forEach((index) => index.clear());
+    this._nextSeq = 0;
+    this._trackedCount = 0;
+
+    for (const row of this._dataSource) this.trackRow(row, this._nextSeq++);
+  }
 
-    const value = node[key];
-    if (isSkippableValue(value)) return true;
+  /**
+   * 컬럼에 보조 인덱스 생성
+   * AND 조건에 해당 컬럼의 동등 비교(eq) 또는 in 조건이 있으면 filteredList / getRows가 인덱스로 후보 row를 좁힘
+   * row 객체의 컬럼 값을 직접 수정했다면 새 값으로 조회하기 전에 reindex 호출
+   */
+  createIndex(column: string): void {
+    if (this._indexes.has(column)) return;
+
+    const index = new SecondaryIndex(column, this.getRowSeq);
+    for (const row of this._dataSource) index.add(row);
+    this._indexes.set(column, index);
+  }
 
-    const rowValue = get(key, row);
-    const like = node.like === true;
+  dropIndex(column: string): void {
+    this._indexes.delete(column);
+  }
 
-    // null 매칭: value가 null이면 rowValue도 null 또는 undefined인 행만 매칭
-    if (value === null) {
-      return rowValue === null || rowValue === undefined;
+  get indexes(): string[] {
+    return Array.from(this._indexes.keys());
+  }
+
+  private readonly getRowSeq = (row: Record<string, any>): number => this._rowSeq.get(row) ?? -1;
+
+  private trackRow(row: Record<string, any>, seq: number): void {
+    this._rowSeq.set(row, seq);
+    if (this._primaryKey) this.indexRow(row);
+    this._indexes.forEach((index) => index.add(row));
+    this._trackedCount++;
+  }
+
+  private untrackRow(row: Record<string, any>): void {
+    if (this._primaryKey) this.unindexRow(row);
+    this._indexes.forEach((index) => index.remove(row));
+    this._trackedCount--;
+  }
+
+  // dataSource에 직접 push / splice한 row를 인덱스에 반영
+  private syncIndexes(): void {
+    if (this._dataSource.length !== this._trackedCount) this.reindex();
+  }
+
+  private appendRow(row: Record<string, any>): void {
+    this._dataSource.push(row);
+    this.trackRow(row, this._nextSeq++);
+    this.recordChange('insert', null, row);
+  }
+
+  // 같은 위치의 row를 교체, 새 row는 기존 row의 순서(seq)를 이어받음
+  private replaceRow(index: number, row: Record<string, any>): Record<string, any> {
+    const [oldRow] = this._dataSource.splice(index, 1, row);
+    this.untrackRow(oldRow);
+    this.trackRow(row, this.getRowSeq(oldRow));
+    this.recordChange('update', oldRow, row);
+    return oldRow;
+  }
+
+  private removeRow(index: number): Record<string, any> {
+    const [oldRow] = this._dataSource.splice(index, 1);
+    this.untrackRow(oldRow);
+    this.recordChange('delete', oldRow, null);
+    return oldRow;
+  }
+
+  // listener가 없으면 기록하지 않음
+  private recordChange(
+    type: TableChangeType,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+  ): void {
+    if (this._events.size > 0) this._pendingChanges.push({ type, before, after });
+  }
+
+  // 쌓인 변경을 row별 이벤트 → change 이벤트 순으로 전달, 트랜잭션 중이면 commit까지 보류
+  private emitChanges(): void {
+    if (this.inTransaction || this._pendingChanges.length === 0) return;
+    const changes = this._pendingChanges;
+    this._pendingChanges = [];
+    changes.forEach((change) => this._events.emit(change.type, change));
+    this._events.emit('change', changes);
+  }
+
+  // 최상위 AND 조건 중 보조 인덱스를 사용할 수 있는 조건으로 후보 row를 좁힘 (가장 적은 후보 선택)
+  private getCandidateRows(conditions: ConditionInput): Record<string, any>[] {
+    this.syncIndexes();
+    const tree = this.getConditionTree(conditions);
+    if (this._indexes.size === 0 || !tree) return this._dataSource;
+
+    const items = isConditionGroup(tree) ? ((tree.logic ?? 'AND') === 'AND' ? tree.conditions : []) : [tree];
+
+    let candidates: Record<string, any>[] | undefined;
+    for (const item of items) {
+      if (isConditionGroup(item)) continue;
+      const indexable = getIndexableValues(item, { stringMatch: this._stringMatch, columnTypes: this._columnTypes });
+      const index = indexable && this._indexes.get(indexable[0]);
+      if (!index) continue;
+
+      const rows = index.lookup(indexable![1]);
+      // row 값이 직접 수정되었으면 다시 인덱싱 후 조회
+      if (index.hasStaleRows(rows)) {
+        this.reindex();
+        return this.getCandidateRows(conditions);
+      }
+      if (!candidates || rows.length < candidates.length) candidates = rows;
     }
+    return candidates ?? this._dataSource;
+  }
 
-    if (typeof value === 'boolean') {
-      if (typeof rowValue === 'boolean') return value === rowValue;
-      if (typeof rowValue === 'string') return value === (rowValue === 'true');
-      return false;
+  private indexRow(row: Record<string, any>): void {
+    const key = row[this._primaryKey!];
+    if (this._primaryIndex.has(key)) {
+      this._hasDuplicateKeys = true;
+      return;
     }
+    this._primaryIndex.set(key, row);
+    if (!this._maxIdDirty && key > this._maxId) this._maxId = key;
+  }
 
-    if (typeof value === 'string') {
-      if (rowValue === null || rowValue === undefined) return false;
-      const cmp = rowValue.toString().toUpperCase();
-      const target = value.toUpperCase();
-      return like ? includes(target, cmp) : cmp === target;
+  private unindexRow(row: Record<string, any>): void {
+    const key = row[this._primaryKey!];
+    if (key === this._maxId) this._maxIdDirty = true;
+    if (this._primaryIndex.get(key) !== row) return;
+
+    this._primaryIndex.delete(key);
+    if (this._hasDuplicateKeys) {
+      const duplicate = this._dataSource.find((r) => r !== row && r[this._primaryKey!] === key);
+      if (duplicate) this._primaryIndex.set(key, duplicate);
     }
+  }
 
-    return eq(value, rowValue);
+  // 조건이 primaryKey 단순 동등 비교면 인덱스로 row를 찾음
+  // 인덱스에 없거나 row의 값이 직접 수정되어 조건과 다르면 undefined (전체 조회로 확인)
+  private lookupPrimaryKey(conditions: ConditionInput): Record<string, any> | undefined {
+    const pk = this._primaryKey;
+    const tree = pk && this.getConditionTree(conditions);
+    if (!pk || !tree) return undefined;
+    // 문자열 값은 대소문자 무시 비교라 인덱스와 결과가 다를 수 있으므로 숫자만 인덱스 사용
+    const key = getKeyEquality(tree, pk);
+    if (typeof key !== 'number') return undefined;
+
+    // 전체 조회와 같은 조건 검증 (스키마로 추론한 type 포함)
+    validateConditionItem(applyColumnType({ [pk]: key }, this._columnTypes));
+    this.syncIndexes();
+    const row = this._primaryIndex.get(key);
+    return row && row[pk] === key ? row : undefined;
   }
 
-  get dataSource() {
-    return this._dataSource;
+  // 조건을 만족하는 첫 번째 row의 위치
+  private findRowIndex(conditions: ConditionInput): number {
+    const row = this.lookupPrimaryKey(conditions);
+    const index = row ? this._dataSource.indexOf(row) : -1;
+    return index !== -1 ? index : this._dataSource.findIndex(this.toPredicate(conditions));
   }
 
   private static parseSortOrder(order?: string): 'asc' | 'desc' | undefined {
@@ -137,7 +457,7 @@ export default class TableData {
     return undefined;
   }
 
-  sortedList(rows: Record<string, any>[], sorts: string[]): Record<string, any>[] {
+  private static parseSorts(sorts: string[]): [string[], ('asc' | 'desc')[]] {
     const sortKeys: string[] = [];
     const sortOrders: ('asc' | 'desc')[] = [];
 
@@ -148,126 +468,545 @@ export default class TableData {
       sortKeys.push(key);
       sortOrders.push(parsed);
     }
+    return [sortKeys, sortOrders];
+  }
 
+  sortedList(rows: Record<string, any>[], sorts: string[]): Record<string, any>[] {
+    const [sortKeys, sortOrders] = TableData.parseSorts(sorts);
     if (sortKeys.length === 0) return rows;
 
     return orderBy(sortKeys, sortOrders, rows);
   }
 
-  filteredList(conditions: ConditionNode | ConditionItem[]): Record<string, any>[] {
-    const conditionTree: ConditionNode = Array.isArray(conditions)
-      ? { logic: 'AND', conditions: conditions as ConditionItem[] }
-      : conditions;
-
-    return filter((row) => this.evaluateCondition(row, conditionTree), this._dataSource);
+  filteredList(conditions: ConditionInput): Record<string, any>[] {
+    const predicate = this.toPredicate(conditions);
+    return filter(predicate, this.getCandidateRows(conditions));
   }
 
   getRows(
     limit: any,
     offset: any,
-    conditions?: ConditionNode | ConditionItem[],
+    conditions?: ConditionInput,
     sorts?: string[],
     meta?: boolean,
   ): Record<string, any>[] | TableMetaData {
-    const nLimit = parseInt(limit, 10);
-    const nOffset = offset ? parseInt(offset, 10) : 0;
-
-    if (!this._dataSource || !this._dataSource.length || nLimit === 0) {
-      if (!meta) return [];
-      return {
-        result: [],
-        meta: {
-          totalCount: 0,
-          currentCount: 0,
-          limit: nLimit,
-          offset: nOffset,
-        },
-      };
-    }
+    const paging = normalizePaging(limit, offset);
+    const rows = conditions ? this.filteredList(conditions) : this._dataSource;
+    const result = this.pageRows(rows, paging, sorts);
 
-    let result = this._dataSource;
+    if (!meta) return result;
 
-    if (conditions) result = this.filteredList(conditions);
-    const totalCount = result.length;
+    return {
+      result: [...result],
+      meta: {
+        totalCount: rows.length,
+        currentCount: result.length,
+        limit: paging.limit ?? null,
+        offset: paging.offset,
+      },
+    };
+  }
 
-    if (sorts) result = this.sortedList(result, sorts);
-    result = result.slice(nOffset, limit ? nOffset + nLimit : undefined);
+  // 정렬 후 limit / offset 구간을 잘라 dataProcessing 적용
+  private pageRows(rows: Record<string, any>[], paging: Paging, sorts?: string[]): Record<string, any>[] {
+    const { limit, offset } = paging;
+    if (limit === 0) return [];
+
+    let result = sorts ? this.sortedList(rows, sorts) : rows;
+    result = result.slice(offset, limit === undefined ? undefined : offset + limit);
 
     if (this.dataProcessing) result = this.dataProcessing(result);
+    return result;
+  }
 
-    if (!meta) return result;
+  /**
+   * page / pageSize 기반 조회 (page는 1부터)
+   * page가 1보다 작거나 totalPages보다 크면 범위 안으로 보정, pageSize가 없으면 전체를 한 페이지로 반환
+   */
+  selectPage(page?: any, pageSize?: any, conditions: ConditionInput = [], sort?: any): TablePageData {
+    const { limit: size } = normalizePaging(pageSize, 0);
+    const rows = this.filteredList(conditions);
+    const totalCount = rows.length;
+
+    let totalPages = totalCount ? 1 : 0;
+    if (size !== undefined) totalPages = size === 0 ? 0 : Math.ceil(totalCount / size);
+
+    const nPage = parseInt(page, 10);
+    const current = Math.min(Math.max(isNaN(nPage) ? 1 : nPage, 1), Math.max(totalPages, 1));
+    const offset = size ? (current - 1) * size : 0;
+    const result = this.pageRows(rows, { limit: size, offset }, TableData.getSortOption(sort));
 
     return {
       result: [...result],
       meta: {
         totalCount,
         currentCount: result.length,
-        limit: nLimit,
-        offset: nOffset,
+        limit: size ?? null,
+        offset,
+        page: current,
+        pageSize: size ?? null,
+        totalPages,
+        hasNext: current < totalPages,
+        hasPrev: current > 1,
+      },
+    };
+  }
+
+  /**
+   * 조건에 맞는 row를 groupBy 키로 묶어 집계하고 그룹 단위로 정렬 / 페이징
+   * meta.totalCount는 전체 그룹 수
+   */
+  aggregate(options: AggregateOptions = {}): TableMetaData {
+    const { conditions, groupBy = [], metrics = { count: { fn: 'count' } }, sort, limit, offset } = options;
+    const paging = normalizePaging(limit, offset);
+
+    const rows = conditions ? this.filteredList(conditions) : this._dataSource;
+    let result = aggregateRows(rows, typeof groupBy === 'string' ? [groupBy] : groupBy, metrics);
+    const totalCount = result.length;
+
+    const sorts = TableData.getSortOption(sort);
+    if (sorts) result = this.sortedList(result, sorts);
+    if (paging.limit === 0) result = [];
+    else result = result.slice(paging.offset, paging.limit === undefined ? undefined : paging.offset + paging.limit);
+
+    return {
+      result,
+      meta: {
+        totalCount,
+        currentCount: result.length,
+        limit: paging.limit ?? null,
+        offset: paging.offset,
+      },
+    };
+  }
+
+  /**
+   * 요청한 컬럼별 값 목록과 개수 (필터 UI용)
+   * 각 컬럼은 자기 자신에 대한 최상위 조건을 제외한 나머지 조건으로 집계
+   * 숫자 / 날짜 컬럼은 min / max와 구간별 개수도 반환
+   */
+  facets(requests: FacetRequest[], conditions: ConditionInput = []): Record<string, Facet> {
+    return requests.reduce<Record<string, Facet>>((acc, request) => {
+      const options = typeof request === 'string' ? { column: request } : request;
+      const own = typeof conditions === 'function' ? conditions : excludeColumnConditions(conditions, options.column);
+      acc[options.column] = computeFacet(this.filteredList(own), options, this._columnTypes?.[options.column]);
+      return acc;
+    }, {});
+  }
+
+  /**
+   * cursor(keyset) 페이지네이션: sort 순서에서 cursor 위치 다음(after) 또는 이전(before)의 limit개 row 반환
+   * cursor는 마지막으로 받은 row의 정렬 키 값과 primaryKey(동순위 정렬용)를 담고 있어
+   * 페이지 사이에 row가 추가 / 삭제되어도 누락이나 중복 없이 이어서 조회
+   */
+  selectRowsByCursor(
+    limit?: any,
+    cursor?: CursorInput,
+    conditions: ConditionInput = [],
+    sort?: any,
+  ): CursorTableMetaData {
+    const pk = this._primaryKey;
+    if (!pk) throw new Error('Cursor pagination requires primaryKey');
+
+    const { after, before } = typeof cursor === 'string' ? { after: cursor, before: undefined } : cursor ?? {};
+    if (after !== undefined && before !== undefined) {
+      throw new Error('Invalid cursor: after and before cannot be used together');
+    }
+
+    const [keys, orders] = TableData.parseSorts(TableData.getSortOption(sort) ?? []);
+    const sortKeys = [...keys, pk];
+    const sortOrders = [...orders, 'asc' as const];
+    const signature = sortKeys.map((key, i) => `${key}:${sortOrders[i]}`);
+    const toCursor = (row: Record<string, any>) =>
+      encodeCursor(
+        sortKeys.map((key) => get(key, row)),
+        signature,
+      );
+
+    const rows = this.filteredList(conditions);
+    let sorted: Record<string, any>[];
+    let start = 0;
+    let end = rows.length;
+    const token = after ?? before;
+
+    if (token === undefined) {
+      sorted = orderBy(sortKeys, sortOrders, rows);
+    } else {
+      // cursor 값을 가진 가상 row를 함께 정렬해서 위치를 찾음 (sortedList와 같은 순서 보장)
+      // 같은 값이면 after는 기존 row 뒤, before는 앞에 오도록 배치
+      const values = decodeCursor(token, signature);
+      const marker = sortKeys.reduce((acc, key, i) => set(key, values[i], acc), {} as Record<string, any>);
+      sorted = orderBy(sortKeys, sortOrders, after !== undefined ? [...rows, marker] : [marker, ...rows]);
+      const position = sorted.indexOf(marker);
+      sorted.splice(position, 1);
+      if (after !== undefined) start = position;
+      else end = position;
+    }
+
+    const { limit: nLimit } = normalizePaging(limit, 0);
+    const pageStart = before !== undefined && nLimit !== undefined ? Math.max(start, end - nLimit) : start;
+    const pageEnd = before === undefined && nLimit !== undefined ? Math.min(end, start + nLimit) : end;
+
+    let result = sorted.slice(pageStart, pageEnd);
+    const nextCursor = result.length && pageEnd < sorted.length ? toCursor(result[result.length - 1]) : null;
+    const prevCursor = result.length && pageStart > 0 ? toCursor(result[0]) : null;
+    if (this.dataProcessing) result = this.dataProcessing(result);
+
+    return {
+      result: [...result],
+      meta: {
+        totalCount: rows.length,
+        currentCount: result.length,
+        limit: nLimit ?? null,
+        nextCursor,
+        prevCursor,
+        hasMore: before !== undefined ? pageStart > 0 : pageEnd < sorted.length,
       },
     };
   }
 
   getNewId(key = this._primaryKey): number {
     if (!key || !this._dataSource || !this._dataSource.length) return 0;
-    const lastItem = this._dataSource.reduce((a, b) => (a[key] > b[key] ? a : b));
-    return lastItem[key] + 1;
+    if (key !== this._primaryKey) return TableData.getMaxValue(this._dataSource, key) + 1;
+
+    this.syncIndexes();
+    if (this._maxIdDirty) {
+      this._maxId = TableData.getMaxValue(this._dataSource, key);
+      this._maxIdDirty = false;
+    }
+    return this._maxId + 1;
   }
 
-  selectRow(conditions: ConditionNode | ConditionItem[]): Record<string, any> | undefined {
-    const tree = Array.isArray(conditions) ? { logic: 'AND', conditions: conditions as ConditionItem[] } : conditions;
+  private static getMaxValue(rows: Record<string, any>[], key: string): any {
+    const lastItem = rows.reduce((a, b) => (a[key] > b[key] ? a : b));
+    return lastItem[key];
+  }
 
-    return this._dataSource.find((row) => this.evaluateCondition(row, tree));
+  selectRow(conditions: ConditionInput): Record<string, any> | undefined {
+    return this.lookupPrimaryKey(conditions) ?? this._dataSource.find(this.toPredicate(conditions));
   }
 
   insertRow(item: Record<string, any>): Record<string, any> {
-    if (this._primaryKey && this._dataSource.find((row) => row[this._primaryKey!] === item[this._primaryKey!])) {
+    this.syncIndexes();
+    const newRow = { ...this.prepareRow(item) };
+    if (this._primaryKey && this._primaryIndex.has(newRow[this._primaryKey])) {
       throw new Error('primary key duplicate error');
     }
-    const newRow = { ...item };
-    if (this._primaryKey && item[this._primaryKey] === undefined) {
+    if (this._primaryKey && newRow[this._primaryKey] === undefined) {
       newRow[this._primaryKey] = this.getNewId();
     }
-    this._dataSource.push(newRow);
+    this.assertValidRow(newRow);
+    this.appendRow(newRow);
+    this.emitChanges();
     return newRow;
   }
 
-  updateRow(conditions: ConditionNode | ConditionItem[], newItem?: Record<string, any>): boolean {
-    const index = this._dataSource.findIndex((row) =>
-      this.evaluateCondition(
-        row,
-        Array.isArray(conditions) ? { logic: 'AND', conditions: conditions as ConditionItem[] } : conditions,
-      ),
-    );
+  /**
+   * 조건을 만족하는 첫 row를 newItem으로 교체 (newItem이 없으면 제거)
+   * options.patch면 newItem의 필드만 병합
+   * primaryKey를 누락하면 기존 값을 유지하고, 다른 row와 중복되는 값으로 바꾸면 에러
+   */
+  updateRow(conditions: ConditionInput, newItem?: Record<string, any>, options: UpdateRowOptions = {}): boolean {
+    const index = this.findRowIndex(conditions);
 
     if (index === -1) throw new Error('not found condition');
 
-    if (newItem) this._dataSource.splice(index, 1, newItem);
-    else this._dataSource.splice(index, 1);
+    if (newItem) this.updateRowAt(index, newItem, options);
+    else this.removeRow(index);
+    this.emitChanges();
     return true;
   }
 
-  deleteRow(conditions: ConditionNode | ConditionItem[]): boolean {
+  /**
+   * 조건을 만족하는 row가 있으면 updateRow, 없으면 insertRow 후 결과 row 반환
+   * 조건이 primaryKey 단순 동등 비교이고 item에 primaryKey가 없으면 조건 값으로 삽입
+   */
+  upsertRow(
+    conditions: ConditionInput,
+    item: Record<string, any>,
+    options: UpdateRowOptions = {},
+  ): Record<string, any> {
+    const index = this.findRowIndex(conditions);
+    if (index !== -1) {
+      const row = this.updateRowAt(index, item, options);
+      this.emitChanges();
+      return row;
+    }
+
+    const pk = this._primaryKey;
+    const newItem = options.patch ? mergeChanges({}, item) : item;
+    const tree = pk && newItem[pk] === undefined ? this.getConditionTree(conditions) : undefined;
+    const key = tree ? getKeyEquality(tree, pk!) : undefined;
+    return this.insertRow(key === undefined ? newItem : { ...newItem, [pk!]: this.toPrimaryKeyValue(key) });
+  }
+
+  // 조건 값(query string의 '60' 등) → primaryKey 값
+  // 스키마 타입으로 변환, 스키마가 없으면 기존 row의 primaryKey가 숫자일 때 숫자 문자열을 숫자로 변환
+  private toPrimaryKeyValue(key: string | number | boolean): any {
+    const pk = this._primaryKey!;
+    const type = this._schema?.[pk]?.type ?? (typeof this._dataSource[0]?.[pk] === 'number' ? 'number' : undefined);
+    return type ? coerceColumnValue(key, type) : key;
+  }
+
+  private updateRowAt(index: number, newItem: Record<string, any>, options: UpdateRowOptions): Record<string, any> {
+    const oldRow = this._dataSource[index];
+    const newRow = this.prepareRow(
+      this.buildUpdatedRow(oldRow, options.patch ? mergeChanges(oldRow, newItem) : newItem),
+    );
+    this.assertValidRow(newRow);
+    if (this.isDuplicateKey(newRow, oldRow)) throw new Error('primary key duplicate error');
+
+    this.replaceRow(index, newRow);
+    return newRow;
+  }
+
+  // primaryKey를 누락한 경우 기존 row의 값을 유지
+  private buildUpdatedRow(oldRow: Record<string, any>, newRow: Record<string, any>): Record<string, any> {
+    const pk = this._primaryKey;
+    if (!pk || newRow[pk] !== undefined) return newRow;
+    return { ...newRow, [pk]: oldRow[pk] };
+  }
+
+  private isDuplicateKey(newRow: Record<string, any>, oldRow: Record<string, any>): boolean {
+    const pk = this._primaryKey;
+    this.syncIndexes();
+    return !!pk && newRow[pk] !== oldRow[pk] && this._primaryIndex.has(newRow[pk]);
+  }
+
+  deleteRow(conditions: ConditionInput): boolean {
     return this.updateRow(conditions);
   }
 
-  selectRows(
-    limit?: any,
-    offset?: any,
-    conditions?: ConditionNode | ConditionItem[],
-    sort?: any,
-    meta?: false,
-  ): Record<string, any>[];
+  /**
+   * 여러 row를 한 번에 삽입하고 삽입된 row 목록 반환
+   * primaryKey 중복(기존 데이터 및 배치 내부)과 스키마를 모두 검사한 뒤 삽입하므로, 하나라도 실패하면 테이블은 변경되지 않음
+   */
+  insertRows(items: Record<string, any>[]): Record<string, any>[] {
+    this.syncIndexes();
+    const pk = this._primaryKey;
+    if (!pk) {
+      const rows = items.map((item) => ({ ...this.prepareRow(item) }));
+      rows.forEach((row) => this.assertValidRow(row));
+      rows.forEach((row) => this.appendRow(row));
+      this.emitChanges();
+      return rows;
+    }
 
-  selectRows(
-    limit?: any,
-    offset?: any,
-    conditions?: ConditionNode | ConditionItem[],
-    sort?: any,
-    meta?: true,
-  ): TableMetaData;
+    const newRows: Record<string, any>[] = [];
+    const batchKeys = new Set<any>();
+    // insertRow를 순서대로 호출한 것과 같은 id가 부여되도록 배치 내부의 최댓값을 이어서 계산
+    let hasRows = this._dataSource.length > 0;
+    let maxId: any = hasRows ? this.getNewId() - 1 : undefined;
+
+    for (const item of items) {
+      const newRow = { ...this.prepareRow(item) };
+      if (this._primaryIndex.has(newRow[pk]) || batchKeys.has(newRow[pk])) {
+        throw new Error('primary key duplicate error');
+      }
+      if (newRow[pk] === undefined) newRow[pk] = hasRows ? maxId + 1 : 0;
+      this.assertValidRow(newRow);
+
+      batchKeys.add(newRow[pk]);
+      if (!hasRows || newRow[pk] > maxId) maxId = newRow[pk];
+      hasRows = true;
+      newRows.push(newRow);
+    }
+
+    newRows.forEach((row) => this.appendRow(row));
+    this.emitChanges();
+    return newRows;
+  }
+
+  /**
+   * 조건을 만족하는 모든 row를 수정하고 수정된 row 목록 반환 (없으면 빈 배열)
+   * - 객체: 기존 row에 필드를 병합 ('address.city' 같은 경로 키 지원)
+   * - 함수: 기존 row의 복사본을 받아 새 row를 반환 (복사본을 수정해 반환해도 됨)
+   * primaryKey 중복과 스키마를 모두 검사한 뒤 수정하므로, 하나라도 실패하면 테이블은 변경되지 않음
+   */
+  updateRows(
+    conditions: ConditionInput,
+    changes: Record<string, any> | ((row: Record<string, any>) => Record<string, any>),
+  ): Record<string, any>[] {
+    const predicate = this.toPredicate(conditions);
+    const targets: [number, Record<string, any>][] = [];
+
+    this._dataSource.forEach((row, index) => {
+      if (!predicate(row)) return;
+      // 함수가 전달받은 row를 직접 수정해도 기존 row(rollback / 이벤트의 before)는 바뀌지 않도록 복사본 전달
+      const newRow = typeof changes === 'function' ? changes({ ...row }) : mergeChanges(row, changes);
+      const updated = this.prepareRow(this.buildUpdatedRow(row, newRow));
+      this.assertValidRow(updated);
+      targets.push([index, updated]);
+    });
+
+    this.assertUniqueKeys(targets);
+    targets.forEach(([index, newRow]) => this.replaceRow(index, newRow));
+    this.emitChanges();
+    return targets.map(([, newRow]) => newRow);
+  }
+
+  // 수정될 row들의 primaryKey가 서로, 그리고 수정되지 않는 row와 중복되지 않는지 검사
+  private assertUniqueKeys(targets: [number, Record<string, any>][]): void {
+    const pk = this._primaryKey;
+    if (!pk) return;
+    this.syncIndexes();
+
+    const oldRows = new Set(targets.map(([index]) => this._dataSource[index]));
+    const newKeys = new Set<any>();
+    for (const [index, newRow] of targets) {
+      const key = newRow[pk];
+      const existing = this._primaryIndex.get(key);
+      const changed = key !== this._dataSource[index][pk];
+      if (newKeys.has(key) || (changed && existing && !oldRows.has(existing))) {
+        throw new Error('primary key duplicate error');
+      }
+      newKeys.add(key);
+    }
+  }
+
+  /**
+   * 조건을 만족하는 모든 row를 삭제하고 삭제된 row 목록 반환 (없으면 빈 배열)
+   */
+  deleteRows(conditions: ConditionInput): Record<string, any>[] {
+    const predicate = this.toPredicate(conditions);
+    const deleted: Record<string, any>[] = [];
+
+    // 한 번의 순회로 남길 row를 앞으로 모음
+    let kept = 0;
+    for (const row of this._dataSource) {
+      if (predicate(row)) deleted.push(row);
+      else this._dataSource[kept++] = row;
+    }
+    this._dataSource.length = kept;
+
+    deleted.forEach((row) => {
+      this.untrackRow(row);
+      this.recordChange('delete', row, null);
+    });
+    this.emitChanges();
+    return deleted;
+  }
+
+  get inTransaction(): boolean {
+    return this._savepoints.length > 0;
+  }
+
+  /**
+   * 트랜잭션 시작, 이미 진행 중이면 savepoint 생성
+   * 트랜잭션 안의 변경은 바로 dataSource에 반영되므로 조회 시 커밋 전 변경도 보임
+   */
+  begin(): void {
+    this._savepoints.push({ rows: [...this._dataSource], indexes: this.indexes, changes: this._pendingChanges.length });
+  }
+
+  /**
+   * 가장 최근의 begin 이후 변경 확정 (savepoint면 바깥 트랜잭션의 rollback 대상으로 남음)
+   * 가장 바깥 트랜잭션이 commit되면 트랜잭션 중의 변경 이벤트를 한 번에 전달
+   */
+  commit(): void {
+    if (!this._savepoints.pop()) throw new Error('No active transaction');
+    this.emitChanges();
+  }
+
+  /**
+   * 가장 최근의 begin 시점으로 dataSource(row 객체와 순서)와 primaryKey / 보조 인덱스 복원
+   * begin 이후의 변경은 이벤트로 전달되지 않음
+   */
+  rollback(): void {
+    const savepoint = this._savepoints.pop();
+    if (!savepoint) throw new Error('No active transaction');
+
+    // 배열을 교체하지 않고 내용만 복원 (dataSource 참조 유지)
+    this._dataSource.length = 0;
+    for (const row of savepoint.rows) this._dataSource.push(row);
+
+    const indexes = new Map(this._indexes);
+    this._indexes.clear();
+    for (const column of savepoint.indexes) {
+      this._indexes.set(column, indexes.get(column) ?? new SecondaryIndex(column, this.getRowSeq));
+    }
+    this.reindex();
+    this._pendingChanges.length = Math.min(this._pendingChanges.length, savepoint.changes);
+  }
+
+  // fn 안에서 닫지 않은 begin을 정리 (바깥 트랜잭션과 함께 commit / rollback)
+  private closeSavepoints(depth: number): void {
+    if (this._savepoints.length < depth) throw new Error('Transaction was closed inside callback');
+    this._savepoints.length = depth;
+  }
+
+  /**
+   * fn을 트랜잭션으로 실행, 에러가 발생하면 rollback 후 에러를 다시 던지고 성공하면 commit 후 결과 반환
+   * 트랜잭션 안에서 다시 호출하면 savepoint로 동작, fn은 동기 함수여야 함
+   */
+  transaction<T>(fn: (table: TableData) => T): T {
+    this.begin();
+    const depth = this._savepoints.length;
+    let result: T;
+    try {
+      result = fn(this);
+    } catch (e) {
+      // fn 안에서 이 트랜잭션을 닫았으면 rollback할 수 없으므로 원래 에러에 원인을 붙여 다시 던짐
+      if (this._savepoints.length < depth) {
+        if (e instanceof Error && e.cause === undefined) {
+          e.cause = new Error('Transaction was closed inside callback');
+        }
+        throw e;
+      }
+      this.closeSavepoints(depth);
+      this.rollback();
+      throw e;
+    }
+
+    this.closeSavepoints(depth);
+    if (result instanceof Promise) {
+      // 반환된 Promise의 reject가 처리되지 않은 채 남지 않도록
+      result.catch(() => undefined);
+      this.rollback();
+      throw new Error('Transaction callback must be synchronous');
+    }
+    this.commit();
+    return result;
+  }
+
+  /**
+   * 변경 이벤트 listener 등록, 해제 함수 반환
+   * - insert / update / delete: 변경된 row마다 { type, before, after } (insert의 before, delete의 after는 null)
+   * - change: 쓰기 메서드 호출마다 해당 호출의 변경 목록을 한 번에 전달 (트랜잭션 중에는 최종 commit 시, rollback된 변경은 제외)
+   * dataSource를 직접 수정한 경우는 전달되지 않음
+   */
+  on<K extends keyof TableEventMap>(event: K, listener: TableEventListener<K>): () => void {
+    this._events.on(event, listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof TableEventMap>(event: K, listener: TableEventListener<K>): void {
+    this._events.off(event, listener);
+  }
+
+  /**
+   * 조회 결과 구독, 해제 함수 반환
+   * 변경이 전달될 때마다 query를 다시 조회해 결과(row 목록과 meta)가 이전과 달라졌을 때만 listener 호출
+   * 구독 시점에는 호출하지 않으므로 초기 결과는 selectRows로 조회
+   */
+  subscribe(query: LiveQuery, listener: (result: TableMetaData) => void): () => void {
+    const { limit, offset, conditions = [], sort } = query;
+    const select = () => this.selectRows(limit, offset, conditions, sort, true);
+
+    let current = select();
+    return this.on('change', () => {
+      const next = select();
+      if (isEqual(current, next)) return;
+      current = next;
+      listener(next);
+    });
+  }
+
+  selectRows(limit?: any, offset?: any, conditions?: ConditionInput, sort?: any, meta?: false): Record<string, any>[];
+
+  selectRows(limit?: any, offset?: any, conditions?: ConditionInput, sort?: any, meta?: true): TableMetaData;
 
-  selectRows(limit?: any, offset?: any, conditions: ConditionNode | ConditionItem[] = [], sort?: any, meta?: boolean) {
+  selectRows(limit?: any, offset?: any, conditions: ConditionInput = [], sort?: any, meta?: boolean) {
     return this.getRows(limit, offset, conditions, TableData.getSortOption(sort), meta);
   }
 }
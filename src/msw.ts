@@ -0,0 +1,51 @@
+import type TableData from './index';
+import { createResourceHandler, RestHandlerOptions } from './rest';
+
+type MswMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// MSW(v2) resolver가 받는 정보 중 사용하는 부분
+export type MswResolverInfo = {
+  request: Request;
+  params: Record<string, string | readonly string[] | undefined>;
+};
+
+export type MswResolver = (info: MswResolverInfo) => Promise<Response>;
+
+// msw 패키지의 `http` 네임스페이스 (라이브러리가 msw에 의존하지 않도록 주입받음)
+export type MswHttp<H = unknown> = Record<MswMethod, (path: string, resolver: MswResolver) => H>;
+
+export type MswHandlerOptions<H> = Omit<RestHandlerOptions, 'basePath'> & {
+  http: MswHttp<H>;
+};
+
+/**
+ * TableData 하나에 대한 MSW 핸들러 목록 생성
+ * - GET / POST {basePath}, GET / PUT / PATCH / DELETE {basePath}/:id
+ * - 요청 처리와 상태 코드는 createRestHandler와 동일
+ */
+export function createMswHandlers<H>(table: TableData, basePath: string, options: MswHandlerOptions<H>): H[] {
+  const { http, ...handlerOptions } = options;
+  const path = basePath.replace(/\/+$/, '');
+  const handle = createResourceHandler(table, path, handlerOptions);
+
+  const resolve = async ({ request, params }: MswResolverInfo, withId: boolean): Promise<Response> => {
+    const id = withId ? String(params.id) : undefined;
+    const body = request.method === 'GET' || request.method === 'DELETE' ? undefined : await request.text();
+    const response = handle(request.method, id, new URL(request.url), body);
+    return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+  const collection: MswResolver = (info) => resolve(info, false);
+  const item: MswResolver = (info) => resolve(info, true);
+
+  return [
+    http.get(path, collection),
+    http.post(path, collection),
+    http.get(`${path}/:id`, item),
+    http.put(`${path}/:id`, item),
+    http.patch(`${path}/:id`, item),
+    http.delete(`${path}/:id`, item),
+  ];
+}
@@ -0,0 +1,182 @@
+import { ConditionItem, ConditionNode, CONDITION_RESERVED_KEYS, getConditionKey, isConditionGroup } from './condition';
+import { Envelope, ListParams, tableEnvelope } from './envelope';
+
+export type QueryInput = URLSearchParams | string | Record<string, any>;
+
+// selectRows(limit, offset, conditions, sort, meta)에 그대로 전달할 수 있는 조회 요청
+export type TableQuery = {
+  limit?: number;
+  offset?: number;
+  conditions: ConditionNode;
+  // 'key:order' 형식
+  sort?: string[];
+};
+
+export type QueryOptions = {
+  // limit / offset / sort 파라미터 형식 (기본값: tableEnvelope의 limit, offset, sort)
+  envelope?: Envelope;
+  // 필터 연산자 표기, suffix는 `age_gte=20`, bracket은 `age[gte]=20` (기본값 suffix)
+  operatorStyle?: 'suffix' | 'bracket';
+  // suffix 구분자 (기본값 '_')
+  suffixSeparator?: string;
+  // in / notIn / between 값 구분자 (기본값 ',')
+  valueSeparator?: string;
+};
+
+// 파라미터 연산자 → 조건 옵션
+const QUERY_OPERATORS: Record<string, Partial<ConditionItem>> = {
+  eq: {},
+  ne: { operator: 'ne' },
+  gt: { operator: 'gt' },
+  gte: { operator: 'gte' },
+  lt: { operator: 'lt' },
+  lte: { operator: 'lte' },
+  in: { operator: 'in' },
+  nin: { operator: 'notIn' },
+  between: { operator: 'between' },
+  like: { like: true },
+  contains: { match: 'contains' },
+  startsWith: { match: 'startsWith' },
+  endsWith: { match: 'endsWith' },
+  regex: { match: 'regex' },
+  chosung: { match: 'chosung' },
+};
+
+function toParamsObject(input: QueryInput): Record<string, any> {
+  if (!(input instanceof URLSearchParams) && typeof input !== 'string') return input;
+
+  const search =
+    typeof input === 'string'
+      ? new URLSearchParams(input.includes('?') ? input.slice(input.indexOf('?')) : input)
+      : input;
+  const params: Record<string, any> = {};
+  search.forEach((value, key) => {
+    // 같은 키가 여러 번 오면 배열
+    if (key in params) params[key] = [...[].concat(params[key]), value];
+    else params[key] = value;
+  });
+  return params;
+}
+
+// 'age_gte' / 'age[gte]' → ['age', 'gte'], 연산자가 없으면 [key, 'eq']
+function splitOperator(key: string, options: QueryOptions): [string, string] {
+  if (options.operatorStyle === 'bracket') {
+    const matched = key.match(/^(.+)\[(\w*)\]$/);
+    // 'role[]'은 같은 키 반복과 동일
+    if (matched && (matched[2] === '' || matched[2] in QUERY_OPERATORS)) return [matched[1], matched[2] || 'eq'];
+    return [key, 'eq'];
+  }
+
+  const separator = options.suffixSeparator ?? '_';
+  const operator = Object.keys(QUERY_OPERATORS).find(
+    (token) => key.length > separator.length + token.length && key.endsWith(`${separator}${token}`),
+  );
+  return operator ? [key.slice(0, -(separator.length + operator.length)), operator] : [key, 'eq'];
+}
+
+function toConditions(key: string, value: any, options: QueryOptions): ConditionItem[] {
+  const [column, token] = splitOperator(key, options);
+  const separator = options.valueSeparator ?? ',';
+  const values: any[] = ([] as any[]).concat(value);
+  const base = QUERY_OPERATORS[token];
+
+  if (base.operator === 'in' || base.operator === 'notIn') {
+    const items = values.flatMap((v) => String(v).split(separator)).filter((v) => v !== '');
+    return items.length ? [{ [column]: items, ...base }] : [];
+  }
+  if (base.operator === 'between') {
+    return values.map((v) => ({
+      [column]: String(v)
+        .split(separator)
+        .map((bound) => (bound === '' ? null : bound)),
+      ...base,
+    }));
+  }
+
+  // 빈 값은 조건에서 제외, 같은 키가 반복된 eq / ne는 in / notIn
+  const present = values.filter((v) => v !== '' && v !== null && v !== undefined);
+  if (!present.length) return [];
+  if (present.length > 1 && (token === 'eq' || token === 'ne')) {
+    return [{ [column]: present, operator: token === 'eq' ? 'in' : 'notIn' }];
+  }
+  return present.map((v) => ({ [column]: v, ...base }));
+}
+
+/**
+ * URLSearchParams / query 문자열 / query 객체 → TableQuery
+ * 페이징 / 정렬 파라미터는 envelope로 해석하고, 나머지 파라미터는 연산자 표기에 따라 AND 조건으로 변환
+ */
+export function parseQuery(input: QueryInput, options: QueryOptions = {}): TableQuery {
+  const envelope = options.envelope ?? tableEnvelope();
+  const { limit, offset, sort, filters } = envelope.parseParams(toParamsObject(input));
+  const conditions = Object.keys(filters).flatMap((key) => toConditions(key, filters[key], options));
+  return { limit, offset, conditions: { logic: 'AND', conditions }, sort };
+}
+
+function toParamValue(value: any, key: string): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') throw new Error(`Cannot serialize condition value for key '${key}'`);
+  return String(value);
+}
+
+// 조건 → [파라미터 키, 값], 연산자 표기로 나타낼 수 없는 조건이면 에러
+function toFilterParam(item: ConditionItem, options: QueryOptions): [string, string] {
+  const column = getConditionKey(item);
+  if (!column) throw new Error(`Cannot serialize condition: ${JSON.stringify(item)}`);
+
+  const { operator = 'eq' } = item;
+  const mode = item.match ?? (item.like === true ? 'like' : undefined);
+  const unsupported = CONDITION_RESERVED_KEYS.filter((key) => !['operator', 'like', 'match'].includes(key)).some(
+    (key) => item[key] !== undefined,
+  );
+  // 문자열 비교 방식은 eq 조건에만 지정 가능
+  if (unsupported || (mode && mode !== 'exact' && operator !== 'eq')) {
+    throw new Error(`Cannot serialize condition: ${JSON.stringify(item)}`);
+  }
+  const token = mode && mode !== 'exact' ? mode : operator === 'notIn' ? 'nin' : operator;
+
+  const value = item[column];
+  const separator = options.valueSeparator ?? ',';
+  const serialized = Array.isArray(value)
+    ? value.map((v) => toParamValue(v, column)).join(separator)
+    : toParamValue(value, column);
+  if (token === 'eq') return [column, serialized];
+  return [
+    options.operatorStyle === 'bracket' ? `${column}[${token}]` : `${column}${options.suffixSeparator ?? '_'}${token}`,
+    serialized,
+  ];
+}
+
+// 최상위 AND 그룹의 단일 조건 목록으로 변환
+function flattenConditions(conditions: ConditionNode | ConditionItem[]): ConditionItem[] {
+  if (Array.isArray(conditions)) return conditions;
+  if (!isConditionGroup(conditions)) return [conditions];
+  if ((conditions.logic ?? 'AND') !== 'AND') {
+    throw new Error(`Cannot serialize condition: ${JSON.stringify(conditions)}`);
+  }
+  return conditions.conditions.flatMap(flattenConditions);
+}
+
+/**
+ * parseQuery의 반대, TableQuery → query 문자열 ('?' 제외)
+ * 최상위 AND 조건만 변환할 수 있으며, OR / NOT 그룹이나 파라미터로 나타낼 수 없는 조건 옵션은 에러
+ */
+export function stringifyQuery(query: Partial<TableQuery>, options: QueryOptions = {}): string {
+  const envelope = options.envelope ?? tableEnvelope();
+  const filters: Record<string, any> = {};
+  for (const item of flattenConditions(query.conditions ?? [])) {
+    const [key, value] = toFilterParam(item, options);
+    filters[key] = key in filters ? [...[].concat(filters[key]), value] : value;
+  }
+
+  const listParams: ListParams = { limit: query.limit, offset: query.offset, sort: query.sort, filters };
+  const params = envelope.toParams(listParams);
+  const search = new URLSearchParams();
+  for (const key of Object.keys(params)) {
+    for (const value of ([] as any[]).concat(params[key])) {
+      search.append(key, typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value));
+    }
+  }
+  return search.toString();
+}
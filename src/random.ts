@@ -0,0 +1,30 @@
+// 시드 기반 난수 생성기, 0 이상 1 미만의 값을 반환
+export type RandomSource = () => number;
+
+const MODULUS = 2147483647;
+const MULTIPLIER = 48271;
+
+function hashSeed(seed: number | string): number {
+  if (typeof seed === 'number') return Math.abs(Math.floor(seed));
+  return Array.from(seed).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % MODULUS, 0);
+}
+
+/**
+ * 같은 seed면 항상 같은 순서의 난수를 반환 (Park-Miller 선형 합동 생성기)
+ */
+export function createRandom(seed: number | string = 1): RandomSource {
+  let state = (hashSeed(seed) % (MODULUS - 1)) + 1;
+  return () => {
+    state = (state * MULTIPLIER) % MODULUS;
+    return (state - 1) / (MODULUS - 1);
+  };
+}
+
+// min 이상 max 이하 정수
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+export function pickRandom<T>(random: RandomSource, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
@@ -0,0 +1,206 @@
+import { Envelope, tableEnvelope } from './envelope';
+import type TableData from './index';
+import { parseQuery, QueryOptions, TableQuery } from './query';
+import { SchemaValidationError } from './schema';
+
+type Row = Record<string, any>;
+
+// 프레임워크에 의존하지 않는 요청 / 응답
+export type RestRequest = {
+  method: string;
+  // '/users/1?fields=a' 같은 경로 + query string 또는 전체 URL
+  url: string;
+  // JSON 문자열 또는 파싱된 객체
+  body?: any;
+};
+
+export type RestResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body?: any;
+};
+
+export type RestHandler = (request: RestRequest) => RestResponse;
+
+export type RestHandlerOptions = {
+  // 리소스 경로 앞에 붙는 경로 (e.g. '/api')
+  basePath?: string;
+  // 목록 조회 요청 파라미터 / 응답 형식 (기본값: tableEnvelope)
+  envelope?: Envelope;
+  // 목록 조회 필터 파라미터 표기
+  query?: Omit<QueryOptions, 'envelope'>;
+  // 목록 조회 query string 해석을 직접 구현 (envelope.parseParams / query 옵션 대신 사용)
+  parseQuery?: (searchParams: URLSearchParams) => TableQuery;
+};
+
+// 리소스 하나에 대한 요청 처리, id가 없으면 목록 요청
+export type ResourceHandler = (method: string, id: string | undefined, url: URL, body?: any) => RestResponse;
+
+// Node http 서버의 요청 / 응답 중 사용하는 부분
+export type NodeRequestLike = {
+  method?: string;
+  url?: string;
+  on(event: string, listener: (...args: any[]) => void): any;
+};
+
+export type NodeResponseLike = {
+  statusCode: number;
+  setHeader(name: string, value: string): any;
+  end(body?: string): any;
+};
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+function json(status: number, body: any, headers: Record<string, string> = {}): RestResponse {
+  return { status, headers: { ...JSON_HEADERS, ...headers }, body };
+}
+
+function errorResponse(status: number, message: string): RestResponse {
+  return json(status, { error: message });
+}
+
+// TableData 에러 → 상태 코드, 그 외 입력 에러는 400
+function toErrorResponse(error: unknown): RestResponse {
+  if (error instanceof SchemaValidationError) return json(422, { error: error.message, errors: error.errors });
+  if (!(error instanceof Error) || error.constructor !== Error) throw error;
+
+  if (error.message === 'not found condition') return errorResponse(404, 'Not Found');
+  if (error.message === 'primary key duplicate error') return errorResponse(409, error.message);
+  return errorResponse(400, error.message);
+}
+
+function parseBody(body: any): Row {
+  const parsed = typeof body === 'string' && body.trim() !== '' ? JSON.parse(body) : body;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Invalid request body');
+  return parsed;
+}
+
+function trimSlashes(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * 리소스 하나(path)에 대한 HTTP 메서드 → TableData 조작, createRestHandler / createMswHandlers에서 공유
+ */
+export function createResourceHandler(
+  table: TableData,
+  path: string,
+  options: Omit<RestHandlerOptions, 'basePath'> = {},
+): ResourceHandler {
+  const envelope = options.envelope ?? tableEnvelope();
+  const toQuery =
+    options.parseQuery ?? ((searchParams: URLSearchParams) => parseQuery(searchParams, { ...options.query, envelope }));
+
+  const handleCollection = (method: string, url: URL, body: any): RestResponse => {
+    if (method === 'GET') {
+      const { limit, offset, conditions, sort } = toQuery(url.searchParams);
+      return json(200, envelope.format(table.selectRows(limit, offset, conditions, sort, true)));
+    }
+    if (method === 'POST') {
+      const row = table.insertRow(parseBody(body));
+      const pk = table.primaryKey;
+      const headers: Record<string, string> = pk
+        ? { Location: `${path.replace(/\/+$/, '')}/${encodeURIComponent(row[pk])}` }
+        : {};
+      return json(201, row, headers);
+    }
+    return errorResponse(405, 'Method Not Allowed');
+  };
+
+  const handleItem = (method: string, id: string, body: any): RestResponse => {
+    const pk = table.primaryKey;
+    if (!pk) return errorResponse(405, 'Method Not Allowed');
+
+    const conditions = [{ [pk]: id }];
+    switch (method) {
+      case 'GET': {
+        const row = table.selectRow(conditions);
+        return row ? json(200, row) : errorResponse(404, 'Not Found');
+      }
+      case 'PUT':
+      case 'PATCH': {
+        const item = parseBody(body);
+        table.updateRow(conditions, item, { patch: method === 'PATCH' });
+        return json(200, table.selectRow([{ [pk]: item[pk] ?? id }]));
+      }
+      case 'DELETE':
+        table.deleteRow(conditions);
+        return { status: 204, headers: {} };
+      default:
+        return errorResponse(405, 'Method Not Allowed');
+    }
+  };
+
+  return (method, id, url, body) => {
+    const upperMethod = method.toUpperCase();
+    try {
+      return id === undefined ? handleCollection(upperMethod, url, body) : handleItem(upperMethod, id, body);
+    } catch (e) {
+      if (e instanceof SyntaxError) return errorResponse(400, 'Invalid JSON body');
+      return toErrorResponse(e);
+    }
+  };
+}
+
+/**
+ * HTTP 메서드를 리소스(TableData) 조작으로 변환하는 핸들러
+ * - GET /users: selectRows(..., meta: true) 결과를 envelope 형식으로 (query string은 parseQuery로 해석)
+ * - GET /users/:id: primaryKey로 selectRow, 없으면 404
+ * - POST /users: insertRow, 201
+ * - PUT / PATCH /users/:id: updateRow (PATCH는 patch 옵션), 없으면 404
+ * - DELETE /users/:id: deleteRow, 204
+ * primaryKey 중복은 409, 스키마 검증 실패는 422
+ */
+export function createRestHandler(resources: Record<string, TableData>, options: RestHandlerOptions = {}): RestHandler {
+  const basePath = trimSlashes(options.basePath ?? '');
+  const handlers = new Map(
+    Object.keys(resources).map((name) => [
+      name,
+      createResourceHandler(resources[name], `/${[basePath, name].filter(Boolean).join('/')}`, options),
+    ]),
+  );
+
+  return (request) => {
+    const url = new URL(request.url, 'http://localhost');
+    let path = trimSlashes(url.pathname);
+    if (basePath) {
+      if (path !== basePath && !path.startsWith(`${basePath}/`)) return errorResponse(404, 'Not Found');
+      path = trimSlashes(path.slice(basePath.length));
+    }
+
+    let segments: string[];
+    try {
+      segments = path.split('/').map(decodeURIComponent);
+    } catch (e) {
+      return errorResponse(400, 'Invalid URL');
+    }
+
+    const [name, id, ...rest] = segments;
+    const handler = handlers.get(name);
+    if (!handler || rest.length) return errorResponse(404, 'Not Found');
+    return handler(request.method, id, url, request.body);
+  };
+}
+
+/**
+ * RestHandler → Node http 서버의 request listener
+ * e.g. http.createServer(toNodeListener(handler)).listen(4000)
+ */
+export function toNodeListener(handler: RestHandler): (req: NodeRequestLike, res: NodeResponseLike) => void {
+  return (req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      let response: RestResponse;
+      try {
+        response = handler({ method: req.method ?? 'GET', url: req.url ?? '/', body });
+      } catch (e) {
+        response = errorResponse(500, (e as Error).message);
+      }
+
+      res.statusCode = response.status;
+      Object.keys(response.headers).forEach((name) => res.setHeader(name, response.headers[name]));
+      res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+    });
+  };
+}
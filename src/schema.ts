@@ -0,0 +1,122 @@
+import { cloneDeep, get, set } from 'lodash/fp';
+import { isDateValue } from './date';
+
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date';
+
+export type ColumnDefinition = {
+  type?: ColumnType;
+  // undefined(누락) 불가
+  required?: boolean;
+  // null 허용 여부 (기본값 false)
+  nullable?: boolean;
+  // 허용 값 목록
+  enum?: any[];
+  // 값이 undefined일 때 채울 기본값, 함수면 쓰기마다 호출
+  default?: any;
+  // 타입이 다르면 변환 ('10' → 10, 'true' → true, 10 → '10')
+  coerce?: boolean;
+};
+
+// 컬럼명(또는 'address.city' 같은 경로) → 컬럼 정의
+export type TableSchema = Record<string, ColumnDefinition>;
+
+export type SchemaFieldError = {
+  field: string;
+  message: string;
+  value: any;
+};
+
+/**
+ * 스키마 검증 실패 시 발생, errors에 잘못된 필드 전체를 담음
+ */
+export class SchemaValidationError extends Error {
+  readonly errors: SchemaFieldError[];
+
+  constructor(errors: SchemaFieldError[]) {
+    super(`Schema validation failed: ${errors.map((e) => e.message).join(', ')}`);
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+  }
+}
+
+const TYPE_CHECKS: Record<ColumnType, (v: any) => boolean> = {
+  string: (v) => typeof v === 'string',
+  number: (v) => typeof v === 'number' && !isNaN(v),
+  boolean: (v) => typeof v === 'boolean',
+  date: (v) => isDateValue(v),
+};
+
+export function coerceColumnValue(value: any, type: ColumnType): any {
+  if (value === null || value === undefined || TYPE_CHECKS[type](value)) return value;
+
+  if (type === 'number' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) return value.toString();
+  return value;
+}
+
+/**
+ * 기본값 채우기 및 타입 변환 (검증은 하지 않음)
+ */
+export function normalizeRow(row: Record<string, any>, schema: TableSchema): Record<string, any> {
+  return Object.keys(schema).reduce((acc, field) => {
+    const column = schema[field];
+    let value = get(field, acc);
+
+    if (value === undefined && column.default !== undefined) {
+      value = typeof column.default === 'function' ? column.default() : cloneDeep(column.default);
+    }
+    if (column.coerce && column.type) value = coerceColumnValue(value, column.type);
+
+    return value === get(field, acc) ? acc : set(field, value, acc);
+  }, row);
+}
+
+export function getSchemaErrors(row: Record<string, any>, schema: TableSchema): SchemaFieldError[] {
+  const errors: SchemaFieldError[] = [];
+
+  for (const field of Object.keys(schema)) {
+    const column = schema[field];
+    const value = get(field, row);
+    const addError = (message: string) => errors.push({ field, message, value });
+
+    if (value === undefined) {
+      if (column.required) addError(`Missing required field: ${field}`);
+      continue;
+    }
+
+    if (value === null) {
+      if (!column.nullable) addError(`Null value for non-nullable field: ${field}`);
+      continue;
+    }
+
+    if (column.type && !TYPE_CHECKS[column.type](value)) {
+      addError(`Type mismatch for key '${field}': expected ${column.type}, got ${typeof value}`);
+      continue;
+    }
+
+    if (column.enum && !column.enum.includes(value)) {
+      addError(
+        `Invalid value for key '${field}': ${JSON.stringify(value)} is not one of ${JSON.stringify(column.enum)}`,
+      );
+    }
+  }
+
+  return errors;
+}
+
+export function validateRow(row: Record<string, any>, schema: TableSchema): void {
+  const errors = getSchemaErrors(row, schema);
+  if (errors.length) throw new SchemaValidationError(errors);
+}
+
+// 조건 type 추론에 사용할 컬럼 → 타입 목록
+export function getColumnTypes(schema: TableSchema): Record<string, ColumnType> {
+  return Object.keys(schema).reduce<Record<string, ColumnType>>((acc, field) => {
+    const type = schema[field].type;
+    if (type) acc[field] = type;
+    return acc;
+  }, {});
+}
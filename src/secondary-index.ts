@@ -0,0 +1,117 @@
+import { get } from 'lodash/fp';
+
+type Row = Record<string, any>;
+
+/**
+ * 컬럼 값 → row 목록 인덱스
+ * 조건 비교와 같은 결과를 내도록 원본 값(숫자, null 비교용)과 대문자 문자열(문자열 비교용) 두 가지 키로 관리
+ * 각 bucket은 dataSource 순서(seq) 기준으로 정렬된 상태를 유지
+ */
+export default class SecondaryIndex {
+  readonly column: string;
+  private readonly getSeq: (row: Row) => number;
+  private readonly valueBuckets = new Map<any, Row[]>();
+  private readonly textBuckets = new Map<string, Row[]>();
+  // 인덱싱 시점의 값, row가 외부에서 수정되어도 정확히 제거하기 위해 보관
+  private readonly indexedValues = new WeakMap<Row, any>();
+
+  constructor(column: string, getSeq: (row: Row) => number) {
+    this.column = column;
+    this.getSeq = getSeq;
+  }
+
+  add(row: Row): void {
+    const value = get(this.column, row);
+    this.indexedValues.set(row, value);
+    this.insertInto(this.valueBuckets, value, row);
+    if (value !== null && value !== undefined) {
+      this.insertInto(this.textBuckets, value.toString().toUpperCase(), row);
+    }
+  }
+
+  remove(row: Row): void {
+    if (!this.indexedValues.has(row)) return;
+    const value = this.indexedValues.get(row);
+    this.indexedValues.delete(row);
+    this.removeFrom(this.valueBuckets, value, row);
+    if (value !== null && value !== undefined) {
+      this.removeFrom(this.textBuckets, value.toString().toUpperCase(), row);
+    }
+  }
+
+  // 인덱싱 이후 값이 직접 수정된 row가 있는지
+  hasStaleRows(rows: Row[]): boolean {
+    return rows.some((row) => !Object.is(get(this.column, row), this.indexedValues.get(row)));
+  }
+
+  clear(): void {
+    this.valueBuckets.clear();
+    this.textBuckets.clear();
+  }
+
+  /**
+   * 조건 값과 동등 비교로 매칭될 수 있는 row 목록 (dataSource 순서)
+   * - null: 값이 null 또는 undefined인 row
+   * - 숫자: 같은 숫자 값을 가진 row
+   * - 문자열: 대소문자 무시 문자열 비교로 같은 row
+   */
+  lookup(values: any[]): Row[] {
+    const buckets: Row[][] = [];
+    for (const value of values) {
+      if (value === null) {
+        buckets.push(this.valueBuckets.get(null) ?? [], this.valueBuckets.get(undefined) ?? []);
+      } else if (typeof value === 'string') {
+        buckets.push(this.textBuckets.get(value.toUpperCase()) ?? []);
+      } else {
+        buckets.push(this.valueBuckets.get(value) ?? []);
+      }
+    }
+
+    const nonEmpty = buckets.filter((bucket) => bucket.length > 0);
+    if (nonEmpty.length === 0) return [];
+    if (nonEmpty.length === 1) return nonEmpty[0];
+
+    const merged = Array.from(new Set(([] as Row[]).concat(...nonEmpty)));
+    return merged.sort((a, b) => this.getSeq(a) - this.getSeq(b));
+  }
+
+  private insertInto<K>(buckets: Map<K, Row[]>, key: K, row: Row): void {
+    const bucket = buckets.get(key);
+    if (!bucket) {
+      buckets.set(key, [row]);
+      return;
+    }
+
+    const seq = this.getSeq(row);
+    // 대부분 끝에 추가되므로 마지막 원소부터 확인
+    if (bucket.length === 0 || this.getSeq(bucket[bucket.length - 1]) < seq) {
+      bucket.push(row);
+      return;
+    }
+    bucket.splice(this.findPosition(bucket, seq), 0, row);
+  }
+
+  private removeFrom<K>(buckets: Map<K, Row[]>, key: K, row: Row): void {
+    const bucket = buckets.get(key);
+    if (!bucket) return;
+
+    let position = this.findPosition(bucket, this.getSeq(row));
+    if (bucket[position] !== row) position = bucket.indexOf(row);
+    if (position === -1) return;
+
+    bucket.splice(position, 1);
+    if (bucket.length === 0) buckets.delete(key);
+  }
+
+  // seq 이상인 첫 번째 위치 (이진 탐색)
+  private findPosition(bucket: Row[], seq: number): number {
+    let low = 0;
+    let high = bucket.length;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (this.getSeq(bucket[mid]) < seq) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
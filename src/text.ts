@@ -0,0 +1,63 @@
+export type NormalizationForm = 'NFC' | 'NFKC';
+
+export const NORMALIZATION_FORMS: readonly NormalizationForm[] = ['NFC', 'NFKC'];
+
+// 한글 초성 (호환용 자모), 음절 및 첫가끝 초성(U+1100~U+1112)과 같은 순서
+const CHOSUNG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+
+const HANGUL_SYLLABLE_START = 0xac00;
+const HANGUL_SYLLABLE_END = 0xd7a3;
+const CHOSEONG_JAMO_START = 0x1100;
+const CHOSEONG_JAMO_END = 0x1112;
+// 초성 하나당 중성(21) * 종성(28) 개의 음절
+const SYLLABLES_PER_CHOSUNG = 588;
+
+/**
+ * 유니코드 정규화, ignoreAccents면 결합 분음 부호(é → e)를 제거
+ */
+export function normalizeText(text: string, form?: NormalizationForm, ignoreAccents?: boolean): string {
+  let result = form ? text.normalize(form) : text;
+  if (ignoreAccents) {
+    result = result
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .normalize('NFC');
+  }
+  return result;
+}
+
+/**
+ * 한글 음절이면 초성을 반환, 그 외 문자는 그대로 반환
+ */
+export function getChosung(char: string): string {
+  const code = char.charCodeAt(0);
+  if (code >= HANGUL_SYLLABLE_START && code <= HANGUL_SYLLABLE_END) {
+    return CHOSUNG[Math.floor((code - HANGUL_SYLLABLE_START) / SYLLABLES_PER_CHOSUNG)];
+  }
+  if (code >= CHOSEONG_JAMO_START && code <= CHOSEONG_JAMO_END) {
+    return CHOSUNG[code - CHOSEONG_JAMO_START];
+  }
+  return char;
+}
+
+export function isChosung(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return CHOSUNG.includes(char) || (code >= CHOSEONG_JAMO_START && code <= CHOSEONG_JAMO_END);
+}
+
+/**
+ * 초성 검색: 검색어의 초성 문자는 대상 문자의 초성과, 그 외 문자는 그대로 비교 (부분일치)
+ * e.g. 'ㄱㅁ', '김ㅁ' → '김민수' 매칭
+ */
+export function matchChosung(query: string, text: string): boolean {
+  const queryChars = Array.from(query);
+  const textChars = Array.from(text);
+
+  for (let i = 0; i + queryChars.length <= textChars.length; i++) {
+    const matched = queryChars.every((char, j) =>
+      isChosung(char) ? getChosung(textChars[i + j]) === getChosung(char) : textChars[i + j] === char,
+    );
+    if (matched) return true;
+  }
+  return false;
+}